@@ -1,12 +1,12 @@
 import { describe, expect, it, vi, beforeEach } from 'vitest';
-import { render, screen, act } from '@testing-library/react';
+import { render, screen, act, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import App from './App';
 
 // Mock WSClient to avoid real sockets in tests
 type CallbackMap = {
   open?: () => void;
-  close?: () => void;
+  close?: (info: { code: number; reason: string; final: boolean }) => void;
   error?: (error: Event) => void;
   message?: (message: any) => void;
 };
@@ -17,6 +17,7 @@ vi.mock('./wsClient', () => {
   class WSClientMock {
     callbacks: CallbackMap = {};
     sent: any[] = [];
+    pending: { resolve: (reply: any) => void; reject: (error: Error) => void }[] = [];
     connected = false;
     disconnected = false;
 
@@ -40,6 +41,13 @@ vi.mock('./wsClient', () => {
       this.sent.push(message);
     }
 
+    request(message: any) {
+      this.sent.push(message);
+      return new Promise((resolve, reject) => {
+        this.pending.push({ resolve, reject });
+      });
+    }
+
     isConnected() {
       return this.connected;
     }
@@ -58,7 +66,12 @@ vi.mock('./wsClient', () => {
 function getClientMock() {
   const state = (globalThis as any).__wsClientMockState as { instance: any };
   if (!state?.instance) throw new Error('Mock WSClient not initialized');
-  return state.instance as { callbacks: CallbackMap; sent: any[]; trigger: Function };
+  return state.instance as {
+    callbacks: CallbackMap;
+    sent: any[];
+    pending: { resolve: (reply: any) => void; reject: (error: Error) => void }[];
+    trigger: Function;
+  };
 }
 
 function createMockLocalStorage() {
@@ -108,6 +121,19 @@ describe('App', () => {
     expect(screen.getByText(/Connected/i)).toBeInTheDocument();
   });
 
+  it('says why the server closed the connection for good', async () => {
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+      client.trigger('close', { code: 4002, reason: 'Disconnected by an operator', final: true });
+    });
+
+    expect(screen.getByText(/Disconnected by the server: Disconnected by an operator/)).toBeInTheDocument();
+  });
+
   it('lets user enter and send a message', async () => {
     const user = userEvent.setup();
     render(<App />);
@@ -131,4 +157,216 @@ describe('App', () => {
       payload: { text: 'Hello' },
     });
   });
+
+  it('shows the current room and requests a room switch', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+      client.trigger('message', {
+        type: 'roomJoined',
+        payload: { room: 'lobby', members: [] },
+      });
+    });
+
+    expect(screen.getByText('#lobby')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText(/Switch room/i), 'games');
+    await user.click(screen.getByText('Join'));
+
+    expect(client.sent).toContainEqual({
+      type: 'joinRoom',
+      payload: { room: 'games' },
+    });
+  });
+
+  it('shows the reply to a sent message and reports failures', async () => {
+    localStorage.setItem('chatUsername', 'Bob');
+    const user = userEvent.setup();
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+    });
+
+    await user.type(screen.getByPlaceholderText(/Type a message/i), 'Hello');
+    await user.click(screen.getByText(/Send/i));
+    await act(async () => {
+      client.pending.at(-1)!.resolve({
+        type: 'chatMessage',
+        payload: {
+          id: 'msg_1',
+          username: 'Bob',
+          text: 'Hello',
+          timestamp: 0,
+          clientId: 'c1',
+          room: 'lobby',
+        },
+      });
+    });
+    expect(screen.getByText('Hello')).toBeInTheDocument();
+
+    await user.type(screen.getByPlaceholderText(/Type a message/i), 'Again');
+    await user.click(screen.getByText(/Send/i));
+    await act(async () => {
+      client.pending.at(-1)!.reject(new Error('Message too long'));
+    });
+    expect(screen.getByText(/Message not sent: Message too long/)).toBeInTheDocument();
+  });
+
+  it('shows the room history and loads older messages', async () => {
+    const user = userEvent.setup();
+    render(<App />);
+    await act(async () => {});
+
+    const message = (id: string, text: string) => ({
+      id,
+      username: 'Ann',
+      text,
+      timestamp: 0,
+      clientId: 'c2',
+      room: 'lobby',
+    });
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+      client.trigger('message', { type: 'roomJoined', payload: { room: 'lobby', members: [] } });
+      client.trigger('message', {
+        type: 'history',
+        payload: { room: 'lobby', messages: [message('msg_3', 'Third')], hasMore: true },
+      });
+    });
+    expect(screen.getByText('Third')).toBeInTheDocument();
+
+    await user.click(screen.getByText('Load older messages'));
+    expect(client.sent.at(-1)).toEqual({
+      type: 'fetchHistory',
+      payload: { room: 'lobby', before: 'msg_3' },
+    });
+
+    await act(async () => {
+      client.pending.at(-1)!.resolve({
+        type: 'history',
+        payload: {
+          room: 'lobby',
+          messages: [message('msg_1', 'First'), message('msg_2', 'Second')],
+          hasMore: false,
+        },
+      });
+    });
+    const texts = Array.from(document.querySelectorAll('.message-text'), (el) => el.textContent);
+    expect(texts).toEqual(['First', 'Second', 'Third']);
+    expect(screen.queryByText('Load older messages')).not.toBeInTheDocument();
+  });
+
+  it('announces typing once per burst and shows who else is typing', async () => {
+    localStorage.setItem('chatUsername', 'Bob');
+    const user = userEvent.setup();
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+      client.trigger('message', { type: 'roomJoined', payload: { room: 'lobby', members: [] } });
+    });
+
+    await user.type(screen.getByPlaceholderText(/Type a message/i), 'Hey there');
+    const typingNotices = () => client.sent.filter((message) => message.type.startsWith('typing'));
+    expect(typingNotices()).toEqual([{ type: 'typingStarted', payload: { room: 'lobby' } }]);
+
+    await user.clear(screen.getByPlaceholderText(/Type a message/i));
+    expect(typingNotices().at(-1)).toEqual({ type: 'typingStopped', payload: { room: 'lobby' } });
+
+    const typing = (clientId: string, username: string, room: string, isTyping: boolean) => ({
+      type: 'userTyping',
+      payload: { clientId, username, room, typing: isTyping },
+    });
+    await act(async () => {
+      client.trigger('message', typing('c2', 'Ann', 'lobby', true));
+      client.trigger('message', typing('c3', 'Cy', 'games', true));
+    });
+    expect(screen.getByText('Ann is typing…')).toBeInTheDocument();
+
+    await act(async () => {
+      client.trigger('message', typing('c4', 'Dee', 'lobby', true));
+    });
+    expect(screen.getByText('Ann and Dee are typing…')).toBeInTheDocument();
+
+    await act(async () => {
+      client.trigger('message', typing('c2', 'Ann', 'lobby', false));
+      client.trigger('message', typing('c4', 'Dee', 'lobby', false));
+    });
+    expect(screen.queryByText(/typing…/)).not.toBeInTheDocument();
+  });
+
+  it('lists who is online and keeps the roster current', async () => {
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+      client.trigger('message', {
+        type: 'welcome',
+        payload: { clientId: 'c1', protocolVersion: 1, resumeToken: 't', resumed: false },
+      });
+      client.trigger('message', {
+        type: 'userList',
+        payload: {
+          users: [
+            { clientId: 'c1', username: 'Bob', room: 'lobby', status: 'online' },
+            { clientId: 'c2', username: null, room: 'lobby', status: 'online' },
+            { clientId: 'c3', username: 'Carol', room: 'games', status: 'online' },
+          ],
+        },
+      });
+      client.trigger('message', {
+        type: 'presenceChanged',
+        payload: { clientId: 'c3', username: 'Carol', room: 'games', status: 'away' },
+      });
+    });
+
+    const roster = within(screen.getByRole('complementary', { name: /online users/i }));
+    expect(roster.getByText('3')).toBeInTheDocument();
+    expect(roster.getByText('(you)')).toBeInTheDocument();
+    expect(roster.getByText('#lobby')).toBeInTheDocument();
+    expect(roster.getByText('away')).toBeInTheDocument();
+    expect(roster.getByText(/1 guest without a name/)).toBeInTheDocument();
+
+    await act(async () => {
+      client.trigger('message', { type: 'presenceRemoved', payload: { clientId: 'c3' } });
+    });
+    expect(roster.queryByText('Carol')).not.toBeInTheDocument();
+    expect(roster.getByText('2')).toBeInTheDocument();
+  });
+
+  it('reports the user as away while the page is hidden', async () => {
+    render(<App />);
+    await act(async () => {});
+
+    const client = getClientMock();
+    await act(async () => {
+      client.trigger('open');
+    });
+
+    const hidden = vi.spyOn(document, 'hidden', 'get').mockReturnValue(true);
+    await act(async () => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+    expect(client.sent.at(-1)).toEqual({ type: 'setStatus', payload: { status: 'away' } });
+
+    hidden.mockReturnValue(false);
+    await act(async () => {
+      document.dispatchEvent(new Event('visibilitychange'));
+    });
+    expect(client.sent.at(-1)).toEqual({ type: 'setStatus', payload: { status: 'online' } });
+    hidden.mockRestore();
+  });
 });
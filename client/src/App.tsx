@@ -4,7 +4,9 @@
  * 🎮 This file is REPLACEABLE - customize it for your specific app.
  *
  * This demo shows how to use the WebSocket client wrapper to build
- * a simple chat interface with username management and message display.
+ * a simple chat interface with username management, message display
+ * with scroll-back through room history, typing indicators, and a sidebar
+ * of who is online.
  *
  * To create a different app:
  * - Replace this component with your own UI
@@ -12,13 +14,111 @@
  * - Update message types in types.ts to match your needs
  */
 
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useLayoutEffect, useRef } from 'react';
 import { WSClient } from './wsClient';
-import type { ChatMessage, ServerMessage } from './types';
+import type { ChatMessage, PresenceStatus, ServerMessage, UserPresence } from './types';
 import './App.css';
 
+// Stays valid across reconnects; refreshed before each one
+let authToken: string | null = null;
+
+/**
+ * Get a signed token from the server before every (re)connect.
+ * Servers without AUTH_SECRET and AUTH_GUEST_TOKENS don't expose /auth/token,
+ * so connect without one.
+ */
+async function fetchAuthToken(): Promise<string | null> {
+  const response = await fetch('/auth/token', {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json',
+      ...(authToken ? { Authorization: `Bearer ${authToken}` } : {}),
+    },
+    body: JSON.stringify({ username: localStorage.getItem('chatUsername') || undefined }),
+  });
+  if (response.status === 404) return null;
+  if (!response.ok) throw new Error(`Token request failed with ${response.status}`);
+
+  authToken = ((await response.json()) as { token: string }).token;
+  return authToken;
+}
+
 // Initialize WebSocket client
-const wsClient = new WSClient();
+const wsClient = new WSClient({ path: '/ws/chat', getToken: fetchAuthToken });
+
+/** Show the user as away after this long without input */
+const IDLE_TIMEOUT_MS = 2 * 60 * 1000;
+
+/** Browser events that count as the user being at the keyboard */
+const ACTIVITY_EVENTS = ['pointermove', 'pointerdown', 'keydown', 'scroll', 'focus'] as const;
+
+/**
+ * Track whether the user is around: away while the tab is hidden or after
+ * IDLE_TIMEOUT_MS without input, online again on the next activity.
+ */
+function usePresenceStatus(): PresenceStatus {
+  const [status, setStatus] = useState<PresenceStatus>('online');
+
+  useEffect(() => {
+    let idleTimer: ReturnType<typeof setTimeout> | undefined;
+
+    const update = () => {
+      clearTimeout(idleTimer);
+      if (document.hidden) {
+        setStatus('away');
+        return;
+      }
+      setStatus('online');
+      idleTimer = setTimeout(() => setStatus('away'), IDLE_TIMEOUT_MS);
+    };
+
+    ACTIVITY_EVENTS.forEach((event) => window.addEventListener(event, update, { passive: true }));
+    document.addEventListener('visibilitychange', update);
+    update();
+
+    return () => {
+      clearTimeout(idleTimer);
+      ACTIVITY_EVENTS.forEach((event) => window.removeEventListener(event, update));
+      document.removeEventListener('visibilitychange', update);
+    };
+  }, []);
+
+  return status;
+}
+
+/**
+ * Named users first (online before away, then alphabetically); users who
+ * haven't picked a name are only counted
+ */
+function splitRoster(roster: UserPresence[]): { named: UserPresence[]; guests: number } {
+  const named = roster
+    .filter((user): user is UserPresence & { username: string } => user.username !== null)
+    .sort(
+      (a, b) =>
+        Number(a.status === 'away') - Number(b.status === 'away') ||
+        a.username.localeCompare(b.username)
+    );
+  return { named, guests: roster.length - named.length };
+}
+
+/** Stop announcing that we're typing after this long without a keystroke */
+const TYPING_IDLE_MS = 3000;
+
+/** Repeat typingStarted this often while typing, well within the server's expiry */
+const TYPING_REFRESH_MS = 3000;
+
+type Typer = Extract<ServerMessage, { type: 'userTyping' }>['payload'];
+
+/**
+ * "Ann is typing…", "Ann and Bo are typing…" or "3 people are typing…"
+ */
+function describeTypers(typers: Typer[]): string {
+  const names = typers.map((typer) => typer.username);
+  if (names.length === 0) return '';
+  if (names.length === 1) return `${names[0]} is typing…`;
+  if (names.length === 2) return `${names[0]} and ${names[1]} are typing…`;
+  return `${names.length} people are typing…`;
+}
 
 export default function App() {
   // Connection state
@@ -32,17 +132,55 @@ export default function App() {
   const [isEditingUsername, setIsEditingUsername] = useState(!username);
   const [usernameInput, setUsernameInput] = useState(username);
 
+  // Room state
+  const [room, setRoom] = useState<string | null>(null);
+  const [roomInput, setRoomInput] = useState('');
+
   // Messages state
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const [systemMessages, setSystemMessages] = useState<string[]>([]);
   const [messageInput, setMessageInput] = useState('');
 
+  // History state: whether the server has older messages than the oldest shown
+  const [hasMoreHistory, setHasMoreHistory] = useState(false);
+  const [loadingHistory, setLoadingHistory] = useState(false);
+
+  // Presence state
+  const [roster, setRoster] = useState<UserPresence[]>([]);
+  const status = usePresenceStatus();
+
+  // Typing state: who else is typing, and what we last told the server
+  const [typers, setTypers] = useState<Typer[]>([]);
+  const typingRef = useRef<{
+    room: string | null;
+    sentAt: number;
+    idleTimer?: ReturnType<typeof setTimeout>;
+  }>({ room: null, sentAt: 0 });
+
   // Refs
   const messagesEndRef = useRef<HTMLDivElement>(null);
-
-  // Auto-scroll to bottom
+  const messagesContainerRef = useRef<HTMLDivElement>(null);
+  // The room messages currently belong to, for replies that arrive after a switch
+  const roomRef = useRef<string | null>(null);
+  // Distance from the bottom to keep while older messages are prepended
+  const scrollAnchorRef = useRef<number | null>(null);
+
+  // Auto-scroll to bottom when a new message arrives (not when older ones load)
+  const lastMessageId = messages[messages.length - 1]?.id;
   useEffect(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [lastMessageId]);
+
+  // Don't fire a typingStopped after unmounting
+  useEffect(() => () => clearTimeout(typingRef.current.idleTimer), []);
+
+  // Keep the view still when older messages are added above it
+  useLayoutEffect(() => {
+    const container = messagesContainerRef.current;
+    if (container && scrollAnchorRef.current !== null) {
+      container.scrollTop = container.scrollHeight - scrollAnchorRef.current;
+      scrollAnchorRef.current = null;
+    }
   }, [messages]);
 
   // Setup WebSocket connection
@@ -60,9 +198,14 @@ export default function App() {
       }
     });
 
-    wsClient.on('close', () => {
+    wsClient.on('close', ({ code, reason, final }) => {
       console.log('[App] Disconnected from server');
       setConnected(false);
+
+      // The client won't retry these (kicked, flooding, too slow); say why
+      if (final) {
+        addSystemMessage(`Disconnected by the server: ${reason || `code ${code}`}. Reload to reconnect.`);
+      }
     });
 
     wsClient.on('error', (error) => {
@@ -88,6 +231,16 @@ export default function App() {
     }
   }, [username, connected]);
 
+  // Tell the server when we go idle or come back (the server starts us as online)
+  useEffect(() => {
+    if (connected) {
+      wsClient.send({
+        type: 'setStatus',
+        payload: { status },
+      });
+    }
+  }, [status, connected]);
+
   // Handle incoming messages
   const handleMessage = (message: ServerMessage) => {
     console.log('[App] Received message:', message);
@@ -95,7 +248,11 @@ export default function App() {
     switch (message.type) {
       case 'welcome':
         setClientId(message.payload.clientId);
-        addSystemMessage(`Connected with ID: ${message.payload.clientId}`);
+        addSystemMessage(
+          message.payload.resumed
+            ? 'Reconnected, caught up on missed messages'
+            : `Connected with ID: ${message.payload.clientId}`
+        );
         break;
 
       case 'userJoined':
@@ -106,10 +263,63 @@ export default function App() {
         addSystemMessage(`${message.payload.username} left`);
         break;
 
+      case 'roomJoined':
+        roomRef.current = message.payload.room;
+        setRoom(message.payload.room);
+        setMessages([]);
+        setHasMoreHistory(false);
+        setTypers([]);
+        addSystemMessage(`Joined #${message.payload.room}`);
+        break;
+
+      case 'roomLeft':
+        roomRef.current = null;
+        setRoom(null);
+        setMessages([]);
+        setHasMoreHistory(false);
+        setTypers([]);
+        addSystemMessage(`Left #${message.payload.room}`);
+        break;
+
       case 'chatMessage':
         setMessages((prev) => [...prev, message.payload]);
         break;
 
+      case 'history':
+        // The latest page, sent right after roomJoined
+        if (message.payload.room === roomRef.current) {
+          setMessages(message.payload.messages);
+          setHasMoreHistory(message.payload.hasMore);
+        }
+        break;
+
+      case 'userList':
+        setRoster(message.payload.users);
+        break;
+
+      case 'presenceChanged': {
+        const presence = message.payload;
+        setRoster((prev) => [
+          ...prev.filter((user) => user.clientId !== presence.clientId),
+          presence,
+        ]);
+        break;
+      }
+
+      case 'presenceRemoved':
+        setRoster((prev) => prev.filter((user) => user.clientId !== message.payload.clientId));
+        break;
+
+      case 'userTyping': {
+        // Everyone hears about every room; only show our own
+        const typer = message.payload;
+        setTypers((prev) => {
+          const others = prev.filter((other) => other.clientId !== typer.clientId);
+          return typer.typing && typer.room === roomRef.current ? [...others, typer] : others;
+        });
+        break;
+      }
+
       case 'systemMessage':
         addSystemMessage(message.payload.text);
         break;
@@ -117,6 +327,17 @@ export default function App() {
       case 'error':
         addSystemMessage(`Error: ${message.payload.message}`);
         break;
+
+      case 'rateLimited':
+        addSystemMessage(
+          `Slow down! Try again in ${Math.ceil(message.payload.retryAfterMs / 1000)}s`
+        );
+        break;
+
+      case 'serverShuttingDown':
+        // WSClient reconnects on its own once the server lets go
+        addSystemMessage('Server is restarting, reconnecting shortly...');
+        break;
     }
   };
 
@@ -136,18 +357,114 @@ export default function App() {
     }
   };
 
+  const handleJoinRoom = () => {
+    const trimmed = roomInput.trim();
+    if (!trimmed) return;
+
+    wsClient.send({
+      type: 'joinRoom',
+      payload: { room: trimmed },
+    });
+
+    setRoomInput('');
+  };
+
+  // Tell the server we stopped typing (sending a message already stops it there)
+  const stopTyping = (notify = true) => {
+    const typing = typingRef.current;
+    clearTimeout(typing.idleTimer);
+    if (notify && typing.room) {
+      wsClient.send({
+        type: 'typingStopped',
+        payload: { room: typing.room },
+      });
+    }
+    typing.room = null;
+    typing.sentAt = 0;
+  };
+
+  const handleMessageInputChange = (text: string) => {
+    setMessageInput(text);
+    if (!connected || !room) return;
+
+    if (!text.trim()) {
+      stopTyping();
+      return;
+    }
+
+    // Throttled: one typingStarted per TYPING_REFRESH_MS, however fast the keystrokes
+    const typing = typingRef.current;
+    if (typing.room !== room || Date.now() - typing.sentAt >= TYPING_REFRESH_MS) {
+      wsClient.send({
+        type: 'typingStarted',
+        payload: { room },
+      });
+      typing.room = room;
+      typing.sentAt = Date.now();
+    }
+
+    clearTimeout(typing.idleTimer);
+    typing.idleTimer = setTimeout(stopTyping, TYPING_IDLE_MS);
+  };
+
   const handleSendMessage = () => {
     const text = messageInput.trim();
     if (!text) return;
 
-    wsClient.send({
-      type: 'sendMessage',
-      payload: { text },
-    });
+    stopTyping(false);
+
+    // request() ties the outcome to this message instead of a stray error toast
+    wsClient
+      .request({
+        type: 'sendMessage',
+        payload: { text },
+      })
+      .then((reply) => {
+        if (reply.type === 'chatMessage') {
+          setMessages((prev) => [...prev, reply.payload]);
+        }
+      })
+      .catch((error: Error) => {
+        addSystemMessage(`Message not sent: ${error.message}`);
+      });
 
     setMessageInput('');
   };
 
+  const loadOlderMessages = () => {
+    if (!room || !hasMoreHistory || loadingHistory || messages.length === 0) return;
+
+    setLoadingHistory(true);
+    wsClient
+      .request({
+        type: 'fetchHistory',
+        payload: { room, before: messages[0].id },
+      })
+      .then((reply) => {
+        if (reply.type !== 'history' || reply.payload.room !== roomRef.current) return;
+
+        const container = messagesContainerRef.current;
+        if (container) {
+          scrollAnchorRef.current = container.scrollHeight - container.scrollTop;
+        }
+        setMessages((prev) => [...reply.payload.messages, ...prev]);
+        setHasMoreHistory(reply.payload.hasMore);
+      })
+      .catch((error: Error) => {
+        addSystemMessage(`Could not load older messages: ${error.message}`);
+      })
+      .finally(() => {
+        setLoadingHistory(false);
+      });
+  };
+
+  const handleMessagesScroll = (e: React.UIEvent<HTMLDivElement>) => {
+    // Fetch the previous page as the user nears the top
+    if (e.currentTarget.scrollTop < 50) {
+      loadOlderMessages();
+    }
+  };
+
   const handleKeyPress = (e: React.KeyboardEvent, action: () => void) => {
     if (e.key === 'Enter') {
       e.preventDefault();
@@ -155,6 +472,8 @@ export default function App() {
     }
   };
 
+  const { named, guests } = splitRoster(roster);
+
   return (
     <div className="app">
       <header className="header">
@@ -164,96 +483,165 @@ export default function App() {
         </div>
       </header>
 
-      <main className="main">
-        {/* System Messages */}
-        {systemMessages.length > 0 && (
-          <div className="system-messages">
-            {systemMessages.map((msg, i) => (
-              <div key={i} className="system-message">
-                {msg}
-              </div>
-            ))}
-          </div>
-        )}
-
-        {/* Username Section */}
-        <div className="username-section">
-          {isEditingUsername ? (
-            <div className="username-edit">
-              <input
-                type="text"
-                value={usernameInput}
-                onChange={(e) => setUsernameInput(e.target.value)}
-                onKeyPress={(e) => handleKeyPress(e, handleSaveUsername)}
-                placeholder="Enter your name..."
-                className="username-input"
-                autoFocus
-              />
-              <button onClick={handleSaveUsername} className="btn-primary">
-                Save
-              </button>
-            </div>
-          ) : (
-            <div className="username-display">
-              <span className="username-label">Messaging as:</span>
-              <span className="username-value">{username}</span>
-              <button
-                onClick={() => setIsEditingUsername(true)}
-                className="btn-secondary"
-              >
-                Edit
-              </button>
-            </div>
-          )}
-        </div>
-
-        {/* Messages */}
-        <div className="messages-container">
-          {messages.length === 0 ? (
-            <div className="no-messages">No messages yet. Start the conversation!</div>
-          ) : (
-            <div className="messages">
-              {messages.map((msg, i) => (
-                <div key={i} className="message">
-                  <div className="message-header">
-                    <span className="message-username">
-                      {msg.username}
-                      {msg.clientId === clientId && (
-                        <span className="you-indicator"> (you)</span>
-                      )}
-                    </span>
-                    <span className="message-time">
-                      {new Date(msg.timestamp).toLocaleTimeString()}
-                    </span>
-                  </div>
-                  <div className="message-text">{msg.text}</div>
+      <div className="layout">
+        <main className="main">
+          {/* System Messages */}
+          {systemMessages.length > 0 && (
+            <div className="system-messages">
+              {systemMessages.map((msg, i) => (
+                <div key={i} className="system-message">
+                  {msg}
                 </div>
               ))}
-              <div ref={messagesEndRef} />
             </div>
           )}
-        </div>
 
-        {/* Message Input */}
-        <div className="input-section">
-          <input
-            type="text"
-            value={messageInput}
-            onChange={(e) => setMessageInput(e.target.value)}
-            onKeyPress={(e) => handleKeyPress(e, handleSendMessage)}
-            placeholder="Type a message..."
-            className="message-input"
-            disabled={!connected || !username}
-          />
-          <button
-            onClick={handleSendMessage}
-            className="btn-primary"
-            disabled={!connected || !username || !messageInput.trim()}
+          {/* Username Section */}
+          <div className="username-section">
+            {isEditingUsername ? (
+              <div className="username-edit">
+                <input
+                  type="text"
+                  value={usernameInput}
+                  onChange={(e) => setUsernameInput(e.target.value)}
+                  onKeyPress={(e) => handleKeyPress(e, handleSaveUsername)}
+                  placeholder="Enter your name..."
+                  className="username-input"
+                  autoFocus
+                />
+                <button onClick={handleSaveUsername} className="btn-primary">
+                  Save
+                </button>
+              </div>
+            ) : (
+              <div className="username-display">
+                <span className="username-label">Messaging as:</span>
+                <span className="username-value">{username}</span>
+                <button
+                  onClick={() => setIsEditingUsername(true)}
+                  className="btn-secondary"
+                >
+                  Edit
+                </button>
+              </div>
+            )}
+          </div>
+
+          {/* Room Section */}
+          <div className="room-section">
+            <span className="username-label">Room:</span>
+            <span className="room-value">{room ? `#${room}` : 'none'}</span>
+            <input
+              type="text"
+              value={roomInput}
+              onChange={(e) => setRoomInput(e.target.value)}
+              onKeyPress={(e) => handleKeyPress(e, handleJoinRoom)}
+              placeholder="Switch room..."
+              className="room-input"
+              disabled={!connected}
+            />
+            <button
+              onClick={handleJoinRoom}
+              className="btn-secondary"
+              disabled={!connected || !roomInput.trim()}
+            >
+              Join
+            </button>
+          </div>
+
+          {/* Messages */}
+          <div
+            className="messages-container"
+            ref={messagesContainerRef}
+            onScroll={handleMessagesScroll}
           >
-            Send
-          </button>
-        </div>
-      </main>
+            {messages.length === 0 ? (
+              <div className="no-messages">No messages yet. Start the conversation!</div>
+            ) : (
+              <div className="messages">
+                {hasMoreHistory && (
+                  <button
+                    onClick={loadOlderMessages}
+                    className="btn-secondary load-older"
+                    disabled={loadingHistory}
+                  >
+                    {loadingHistory ? 'Loading...' : 'Load older messages'}
+                  </button>
+                )}
+                {messages.map((msg) => (
+                  <div key={msg.id} className="message">
+                    <div className="message-header">
+                      <span className="message-username">
+                        {msg.username}
+                        {msg.clientId === clientId && (
+                          <span className="you-indicator"> (you)</span>
+                        )}
+                      </span>
+                      <span className="message-time">
+                        {new Date(msg.timestamp).toLocaleTimeString()}
+                      </span>
+                    </div>
+                    <div className="message-text">{msg.text}</div>
+                  </div>
+                ))}
+                <div ref={messagesEndRef} />
+              </div>
+            )}
+          </div>
+
+          {/* Typing Indicator */}
+          <div className="typing-indicator" aria-live="polite">
+            {describeTypers(typers)}
+          </div>
+
+          {/* Message Input */}
+          <div className="input-section">
+            <input
+              type="text"
+              value={messageInput}
+              onChange={(e) => handleMessageInputChange(e.target.value)}
+              onKeyPress={(e) => handleKeyPress(e, handleSendMessage)}
+              placeholder="Type a message..."
+              className="message-input"
+              disabled={!connected || !username}
+            />
+            <button
+              onClick={handleSendMessage}
+              className="btn-primary"
+              disabled={!connected || !username || !messageInput.trim()}
+            >
+              Send
+            </button>
+          </div>
+        </main>
+
+        {/* Who's Online */}
+        <aside className="roster" aria-label="Online users">
+          <h2 className="roster-title">
+            Online <span className="roster-count">{roster.length}</span>
+          </h2>
+          <ul className="roster-list">
+            {named.map((user) => (
+              <li key={user.clientId} className={`roster-user ${user.status}`}>
+                <span className="presence-dot" title={user.status === 'away' ? 'Away' : 'Online'} />
+                <span className="roster-name">
+                  {user.username}
+                  {user.clientId === clientId && <span className="you-indicator"> (you)</span>}
+                </span>
+                <span className="roster-room">
+                  {user.status === 'away' ? 'away' : user.room && `#${user.room}`}
+                </span>
+              </li>
+            ))}
+          </ul>
+          {guests > 0 && (
+            <div className="roster-guests">
+              {named.length > 0 ? '+ ' : ''}
+              {guests} {guests === 1 ? 'guest' : 'guests'} without a name
+            </div>
+          )}
+        </aside>
+      </div>
     </div>
   );
 }
@@ -1 +1,4 @@
 import '@testing-library/jest-dom';
+
+// jsdom doesn't implement scrolling; App auto-scrolls the message list
+Element.prototype.scrollIntoView = () => {};
@@ -1,40 +1,25 @@
 /**
- * Shared TypeScript types for WebSocket messages
+ * Client-side TypeScript types
  *
- * These types mirror server/src/types.ts
- * Keep these in sync with the server types!
+ * The message protocol itself lives in the shared workspace package
+ * (shared/src/protocol.ts) and is re-exported here for convenience.
+ * This file adds client-only UI state types.
  */
 
 // ============================================================================
-// CLIENT → SERVER MESSAGES
+// PROTOCOL (shared with the server)
 // ============================================================================
 
-export type ClientMessage =
-  | { type: 'setUsername'; payload: { username: string } }
-  | { type: 'sendMessage'; payload: { text: string } };
-
-// ============================================================================
-// SERVER → CLIENT MESSAGES
-// ============================================================================
-
-export type ServerMessage =
-  | { type: 'welcome'; payload: { clientId: string } }
-  | { type: 'userJoined'; payload: { username: string } }
-  | { type: 'userLeft'; payload: { username: string } }
-  | { type: 'chatMessage'; payload: ChatMessage }
-  | { type: 'systemMessage'; payload: { text: string } }
-  | { type: 'error'; payload: { message: string } };
-
-// ============================================================================
-// DATA STRUCTURES
-// ============================================================================
-
-export interface ChatMessage {
-  username: string;
-  text: string;
-  timestamp: number;
-  clientId: string;
-}
+export type {
+  ClientMessage,
+  ServerMessage,
+  ClientFrame,
+  ServerFrame,
+  ChatMessage,
+  User,
+  UserPresence,
+  PresenceStatus,
+} from 'websocket-template-shared';
 
 // ============================================================================
 // UI STATE
@@ -0,0 +1,570 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { msgpackCodec } from 'websocket-template-shared';
+import { WSClient } from './wsClient';
+
+// Minimal stand-in for the browser WebSocket so tests control every event
+class FakeWebSocket {
+  static CONNECTING = 0;
+  static OPEN = 1;
+  static CLOSING = 2;
+  static CLOSED = 3;
+  static instances: FakeWebSocket[] = [];
+
+  readyState = FakeWebSocket.CONNECTING;
+  protocol = '';
+  binaryType = 'blob';
+  sent: any[] = [];
+  onopen: (() => void) | null = null;
+  onclose: ((event: { code: number; reason: string }) => void) | null = null;
+  onerror: ((error: Event) => void) | null = null;
+  onmessage: ((event: { data: string | ArrayBuffer }) => void) | null = null;
+
+  constructor(
+    public url: string,
+    public protocols: string[] = []
+  ) {
+    FakeWebSocket.instances.push(this);
+  }
+
+  send(data: string | Uint8Array) {
+    this.sent.push(typeof data === 'string' ? JSON.parse(data) : msgpackCodec.decode(data));
+  }
+
+  close() {
+    this.readyState = FakeWebSocket.CLOSED;
+  }
+
+  open() {
+    this.readyState = FakeWebSocket.OPEN;
+    this.onopen?.();
+  }
+
+  receive(message: unknown) {
+    this.onmessage?.({ data: JSON.stringify(message) });
+  }
+
+  drop(code = 1006, reason = '') {
+    this.readyState = FakeWebSocket.CLOSED;
+    this.onclose?.({ code, reason });
+  }
+}
+
+describe('WSClient heartbeat', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('pings the server and stays connected while it answers', () => {
+    const client = new WSClient({
+      url: 'ws://test',
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500,
+    });
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    vi.advanceTimersByTime(1000);
+    expect(socket.sent.at(-1)?.type).toBe('ping');
+
+    socket.receive({ type: 'pong', payload: { timestamp: 0 } });
+    vi.advanceTimersByTime(600);
+
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(client.isConnected()).toBe(true);
+    client.disconnect();
+  });
+
+  it('does not surface pong replies to the app', () => {
+    const onMessage = vi.fn();
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 1000 });
+    client.on('message', onMessage);
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    socket.receive({ type: 'pong', payload: { timestamp: 0 } });
+    socket.receive({ type: 'systemMessage', payload: { text: 'hi' } });
+
+    expect(onMessage).toHaveBeenCalledTimes(1);
+    expect(onMessage.mock.calls[0][0].type).toBe('systemMessage');
+    client.disconnect();
+  });
+
+  it('reconnects when the server goes silent', () => {
+    const onClose = vi.fn();
+    const client = new WSClient({
+      url: 'ws://test',
+      initialReconnectDelay: 100,
+      heartbeatInterval: 1000,
+      heartbeatTimeout: 500,
+    });
+    client.on('close', onClose);
+    client.connect();
+    FakeWebSocket.instances[0].open();
+
+    // Ping goes out, nothing comes back before the timeout
+    vi.advanceTimersByTime(1500);
+    expect(onClose).toHaveBeenCalledTimes(1);
+    expect(client.isConnected()).toBe(false);
+
+    vi.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+});
+
+describe('WSClient closes by the server', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it.each([
+    [1008, 'Rate limit exceeded'],
+    [4001, 'Slow consumer'],
+    [4002, 'Disconnected by an operator'],
+  ])('stops reconnecting after close code %i', async (code, reason) => {
+    const onClose = vi.fn();
+    const client = new WSClient({ url: 'ws://test', initialReconnectDelay: 100, heartbeatInterval: 0 });
+    client.on('close', onClose);
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+    const pending = client.request({ type: 'sendMessage', payload: { text: 'hi' } });
+
+    socket.drop(code, reason);
+
+    expect(onClose).toHaveBeenCalledWith({ code, reason, final: true });
+    await expect(pending).rejects.toMatchObject({ code: 'CONNECTION_LOST', message: reason });
+    vi.advanceTimersByTime(60000);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    // Connecting again is up to the app
+    client.connect();
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+
+  it('keeps reconnecting after an abnormal close', () => {
+    const onClose = vi.fn();
+    const client = new WSClient({ url: 'ws://test', initialReconnectDelay: 100, heartbeatInterval: 0 });
+    client.on('close', onClose);
+    client.connect();
+    FakeWebSocket.instances[0].open();
+
+    FakeWebSocket.instances[0].drop();
+
+    expect(onClose).toHaveBeenCalledWith({ code: 1006, reason: '', final: false });
+    vi.advanceTimersByTime(100);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    client.disconnect();
+  });
+});
+
+describe('WSClient session resumption', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  const welcome = {
+    type: 'welcome',
+    payload: { clientId: 'c1', protocolVersion: 1, resumeToken: 'tok en', resumed: false },
+  };
+
+  it('reconnects with the resume token from the welcome message', () => {
+    const client = new WSClient({ url: 'ws://test/ws', initialReconnectDelay: 100 });
+    client.connect();
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    first.receive(welcome);
+
+    first.drop();
+    vi.advanceTimersByTime(100);
+
+    const second = FakeWebSocket.instances[1];
+    expect(new URL(second.url).searchParams.get('resumeToken')).toBe('tok en');
+    client.disconnect();
+  });
+
+  it('forgets the token after a manual disconnect', () => {
+    const client = new WSClient({ url: 'ws://test/ws' });
+    client.connect();
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    first.receive(welcome);
+
+    client.disconnect();
+    client.connect();
+
+    expect(FakeWebSocket.instances[1].url).toBe('ws://test/ws');
+    client.disconnect();
+  });
+});
+
+describe('WSClient server shutdown', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  const notice = {
+    type: 'serverShuttingDown',
+    payload: { closeInMs: 5000, reconnectAfterMs: 1000, reconnectJitterMs: 2000 },
+  };
+
+  it('reconnects after the suggested delay plus jitter instead of the backoff', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0.5);
+    const onMessage = vi.fn();
+    const client = new WSClient({ url: 'ws://test/ws', initialReconnectDelay: 100 });
+    client.on('message', onMessage);
+    client.connect();
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    first.receive({
+      type: 'welcome',
+      payload: { clientId: 'c1', protocolVersion: 1, resumeToken: 'tok', resumed: false },
+    });
+    first.receive(notice);
+    expect(onMessage).toHaveBeenLastCalledWith(notice);
+
+    first.drop();
+    vi.advanceTimersByTime(1999);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+
+    vi.advanceTimersByTime(1);
+    expect(FakeWebSocket.instances).toHaveLength(2);
+    // The session ended with the old server, so there is nothing to resume
+    expect(FakeWebSocket.instances[1].url).toBe('ws://test/ws');
+    client.disconnect();
+  });
+
+  it('goes back to the normal backoff after the hinted reconnect', () => {
+    vi.spyOn(Math, 'random').mockReturnValue(0);
+    const client = new WSClient({ url: 'ws://test/ws', initialReconnectDelay: 100 });
+    client.connect();
+    const first = FakeWebSocket.instances[0];
+    first.open();
+    first.receive(notice);
+
+    first.drop();
+    vi.advanceTimersByTime(1000);
+    FakeWebSocket.instances[1].drop();
+    vi.advanceTimersByTime(100);
+
+    expect(FakeWebSocket.instances).toHaveLength(3);
+    client.disconnect();
+  });
+});
+
+describe('WSClient endpoints', () => {
+  beforeEach(() => {
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('connects to the configured path on the given URL', () => {
+    const client = new WSClient({ url: 'ws://test/old', path: '/ws/game' });
+    client.connect();
+
+    expect(FakeWebSocket.instances[0].url).toBe('ws://test/ws/game');
+    client.disconnect();
+  });
+
+  it('applies the path to the default URL', () => {
+    const client = new WSClient({ path: '/ws/chat' });
+    client.connect();
+
+    const url = new URL(FakeWebSocket.instances[0].url);
+    expect(url.protocol).toBe('ws:');
+    expect(url.pathname).toBe('/ws/chat');
+    client.disconnect();
+  });
+});
+
+describe('WSClient requests', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  function connectedClient(config = {}) {
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0, ...config });
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+    return { client, socket };
+  }
+
+  it('resolves with the correlated reply and keeps it out of onMessage', async () => {
+    const onMessage = vi.fn();
+    const { client, socket } = connectedClient();
+    client.on('message', onMessage);
+
+    const pending = client.request({ type: 'sendMessage', payload: { text: 'hi' } });
+    const { requestId } = socket.sent.at(-1);
+    expect(requestId).toBeTruthy();
+
+    socket.receive({ type: 'systemMessage', payload: { text: 'ok' }, requestId });
+
+    await expect(pending).resolves.toMatchObject({ type: 'systemMessage' });
+    expect(onMessage).not.toHaveBeenCalled();
+    client.disconnect();
+  });
+
+  it('rejects with the server error', async () => {
+    const { client, socket } = connectedClient();
+
+    const pending = client.request({ type: 'sendMessage', payload: { text: '' } });
+    const { requestId } = socket.sent.at(-1);
+    socket.receive({
+      type: 'error',
+      payload: { message: 'Message cannot be empty', code: 'EMPTY' },
+      requestId,
+    });
+
+    await expect(pending).rejects.toMatchObject({
+      name: 'RequestError',
+      message: 'Message cannot be empty',
+      code: 'EMPTY',
+    });
+    client.disconnect();
+  });
+
+  it('rejects rate-limited requests with the retry delay', async () => {
+    const { client, socket } = connectedClient();
+
+    const pending = client.request({ type: 'sendMessage', payload: { text: 'hi' } });
+    const { requestId } = socket.sent.at(-1);
+    socket.receive({
+      type: 'rateLimited',
+      payload: { retryAfterMs: 400, messageType: 'sendMessage' },
+      requestId,
+    });
+
+    await expect(pending).rejects.toMatchObject({ code: 'RATE_LIMITED', retryAfterMs: 400 });
+    client.disconnect();
+  });
+
+  it('rejects when no reply arrives in time', async () => {
+    const { client } = connectedClient();
+
+    const pending = client.request({ type: 'sendMessage', payload: { text: 'hi' } }, { timeout: 500 });
+    vi.advanceTimersByTime(500);
+
+    await expect(pending).rejects.toMatchObject({ code: 'TIMEOUT' });
+    client.disconnect();
+  });
+
+  it('does not send a queued request after it timed out', async () => {
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0 });
+    const pending = client.request({ type: 'sendMessage', payload: { text: 'late' } }, { timeout: 500 });
+    vi.advanceTimersByTime(500);
+    await expect(pending).rejects.toMatchObject({ code: 'TIMEOUT' });
+
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    expect(socket.sent).toEqual([]);
+    client.disconnect();
+  });
+
+  it('rejects sent requests when the connection drops and keeps queued ones', async () => {
+    const { client, socket } = connectedClient();
+
+    const sent = client.request({ type: 'sendMessage', payload: { text: 'first' } });
+    socket.drop();
+    const queued = client.request(
+      { type: 'sendMessage', payload: { text: 'second' } },
+      { timeout: 120000 }
+    );
+
+    await expect(sent).rejects.toMatchObject({ code: 'CONNECTION_LOST' });
+
+    vi.advanceTimersByTime(60000);
+    const reconnected = FakeWebSocket.instances[1];
+    reconnected.open();
+    const { requestId } = reconnected.sent.at(-1);
+    reconnected.receive({ type: 'systemMessage', payload: { text: 'ok' }, requestId });
+
+    await expect(queued).resolves.toMatchObject({ type: 'systemMessage' });
+    client.disconnect();
+  });
+
+  it('keeps fire-and-forget send working alongside requests', () => {
+    const { client, socket } = connectedClient();
+
+    client.send({ type: 'setUsername', payload: { username: 'Ann' } });
+    expect(socket.sent.at(-1)).toEqual({ type: 'setUsername', payload: { username: 'Ann' } });
+    client.disconnect();
+  });
+});
+
+describe('WSClient authentication', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('fetches a fresh token for every connection attempt', async () => {
+    let issued = 0;
+    const getToken = vi.fn(async () => `token-${++issued}`);
+    const client = new WSClient({ url: 'ws://test/ws', initialReconnectDelay: 100, getToken });
+
+    client.connect();
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(1));
+    const first = FakeWebSocket.instances[0];
+    expect(new URL(first.url).searchParams.get('token')).toBe('token-1');
+
+    first.open();
+    first.drop();
+    await vi.advanceTimersByTimeAsync(100);
+
+    expect(getToken).toHaveBeenCalledTimes(2);
+    expect(new URL(FakeWebSocket.instances[1].url).searchParams.get('token')).toBe('token-2');
+    client.disconnect();
+  });
+
+  it('connects when connect, disconnect, connect happen during a token fetch', async () => {
+    let resolveToken: (token: string) => void = () => {};
+    const token = new Promise<string>((resolve) => (resolveToken = resolve));
+    const getToken = vi.fn(() => token);
+    const client = new WSClient({ url: 'ws://test/ws', getToken });
+
+    // What React.StrictMode does to an effect in development
+    client.connect();
+    client.disconnect();
+    client.connect();
+    resolveToken('token-1');
+
+    await vi.waitFor(() => expect(FakeWebSocket.instances).toHaveLength(1));
+    expect(getToken).toHaveBeenCalledTimes(1);
+    client.disconnect();
+  });
+
+  it('retries with backoff when the token cannot be fetched', async () => {
+    const getToken = vi
+      .fn<[], Promise<string | null>>()
+      .mockRejectedValueOnce(new Error('offline'))
+      .mockResolvedValue(null);
+    const client = new WSClient({ url: 'ws://test/ws', initialReconnectDelay: 100, getToken });
+
+    client.connect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(FakeWebSocket.instances).toHaveLength(0);
+
+    await vi.advanceTimersByTimeAsync(100);
+    expect(FakeWebSocket.instances).toHaveLength(1);
+    expect(FakeWebSocket.instances[0].url).toBe('ws://test/ws');
+    client.disconnect();
+  });
+});
+
+describe('WSClient codecs', () => {
+  beforeEach(() => {
+    vi.useFakeTimers();
+    FakeWebSocket.instances = [];
+    vi.stubGlobal('WebSocket', FakeWebSocket);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.unstubAllGlobals();
+  });
+
+  it('speaks msgpack once the server agrees to it', () => {
+    const onMessage = vi.fn();
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0, codec: msgpackCodec });
+    client.on('message', onMessage);
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    expect(socket.protocols).toEqual(['msgpack', 'json']);
+    expect(socket.binaryType).toBe('arraybuffer');
+
+    socket.protocol = 'msgpack';
+    socket.open();
+    client.send({ type: 'joinRoom', payload: { room: 'game' } });
+    expect(socket.sent.at(-1)).toEqual({ type: 'joinRoom', payload: { room: 'game' } });
+
+    const encoded = msgpackCodec.encode({ type: 'systemMessage', payload: { text: 'hi' } }) as Uint8Array;
+    socket.onmessage?.({ data: encoded.slice().buffer });
+    expect(onMessage).toHaveBeenCalledWith({ type: 'systemMessage', payload: { text: 'hi' } });
+    client.disconnect();
+  });
+
+  it('falls back to JSON when the server only speaks JSON', () => {
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0, codec: msgpackCodec });
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.protocol = 'json';
+    socket.open();
+
+    const sent = vi.spyOn(socket, 'send');
+    client.send({ type: 'joinRoom', payload: { room: 'game' } });
+    expect(sent.mock.calls[0][0]).toBe(JSON.stringify({ type: 'joinRoom', payload: { room: 'game' } }));
+    client.disconnect();
+  });
+
+  it('offers JSON only once when it is the preferred codec', () => {
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0 });
+    client.connect();
+    expect(FakeWebSocket.instances[0].protocols).toEqual(['json']);
+    client.disconnect();
+  });
+
+  it('falls back to JSON when the server ignores the codec', () => {
+    const client = new WSClient({ url: 'ws://test', heartbeatInterval: 0, codec: msgpackCodec });
+    client.connect();
+    const socket = FakeWebSocket.instances[0];
+    socket.open();
+
+    const sent = vi.spyOn(socket, 'send');
+    client.send({ type: 'joinRoom', payload: { room: 'game' } });
+    expect(typeof sent.mock.calls[0][0]).toBe('string');
+    client.disconnect();
+  });
+});
@@ -8,7 +8,8 @@
  * DO NOT modify this file for app-specific logic.
  */
 
-import type { ClientMessage, ServerMessage } from './types';
+import { PROTOCOL_VERSION, findCodec, jsonCodec, type Codec } from 'websocket-template-shared';
+import type { ClientFrame, ClientMessage, ServerFrame, ServerMessage } from './types';
 
 /**
  * WebSocket connection configuration
@@ -17,6 +18,9 @@ interface WSClientConfig {
   /** WebSocket URL (defaults to current host) */
   url?: string;
 
+  /** Endpoint path on the server, e.g. '/ws/chat'; replaces the path of the URL */
+  path?: string;
+
   /** Initial reconnect delay in ms (default: 3000) */
   initialReconnectDelay?: number;
 
@@ -25,6 +29,82 @@ interface WSClientConfig {
 
   /** Maximum number of reconnect attempts (default: Infinity) */
   maxReconnectAttempts?: number;
+
+  /** How often to ping the server in ms (default: 25000, 0 disables heartbeats) */
+  heartbeatInterval?: number;
+
+  /** How long to wait for any reply before reconnecting in ms (default: 10000) */
+  heartbeatTimeout?: number;
+
+  /** Default time request() waits for a reply in ms (default: 10000) */
+  requestTimeout?: number;
+
+  /**
+   * Supplies the auth token before every connect and reconnect, so expired
+   * tokens can be refreshed. Return null to connect without one.
+   */
+  getToken?: () => string | null | Promise<string | null>;
+
+  /**
+   * Wire codec to ask the server for, e.g. msgpackCodec (default: jsonCodec).
+   * Falls back to JSON when the server doesn't agree to it.
+   */
+  codec?: Codec;
+}
+
+/**
+ * Options for a single request()
+ */
+interface RequestOptions {
+  /** How long to wait for the reply in ms (default: config.requestTimeout) */
+  timeout?: number;
+}
+
+/**
+ * A request() waiting for its correlated reply
+ */
+interface PendingRequest {
+  resolve: (message: ServerMessage) => void;
+  reject: (error: RequestError) => void;
+  timeout: number;
+  /** The frame carrying the request, so it can be pulled from the queue */
+  frame: ClientFrame;
+}
+
+/**
+ * Why a request() was rejected: an error reply from the server, a rate limit
+ * (code 'RATE_LIMITED', see retryAfterMs), a timeout (code 'TIMEOUT'), the
+ * connection dropping after it was sent (code 'CONNECTION_LOST') or a manual
+ * disconnect (code 'DISCONNECTED')
+ */
+export class RequestError extends Error {
+  constructor(
+    message: string,
+    public readonly code?: string,
+    public readonly field?: string,
+    public readonly retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = 'RequestError';
+  }
+}
+
+/**
+ * Close codes the server uses to end a connection on purpose: 1008 for a
+ * client that kept flooding (or failed a policy check), 4001 for a slow
+ * consumer, 4002 for an operator disconnect. Reconnecting would only repeat
+ * it, so the client stops until connect() is called again.
+ */
+const FINAL_CLOSE_CODES = new Set([1008, 4001, 4002]);
+
+/**
+ * Why the connection closed
+ */
+export interface CloseInfo {
+  code: number;
+  reason: string;
+  /** The server ended the connection on purpose; no reconnect is scheduled */
+  final: boolean;
 }
 
 /**
@@ -32,7 +112,7 @@ interface WSClientConfig {
  */
 interface WSClientCallbacks {
   onOpen?: () => void;
-  onClose?: () => void;
+  onClose?: (info: CloseInfo) => void;
   onError?: (error: Event) => void;
   onMessage?: (message: ServerMessage) => void;
 }
@@ -40,7 +120,7 @@ interface WSClientCallbacks {
 type WSEventName = 'open' | 'close' | 'error' | 'message';
 type WSEventMap = {
   open: () => void;
-  close: () => void;
+  close: (info: CloseInfo) => void;
   error: (error: Event) => void;
   message: (message: ServerMessage) => void;
 };
@@ -62,20 +142,41 @@ export class WSClient {
   private url: string;
   private callbacks: WSClientCallbacks = {};
   private reconnectAttempts = 0;
+  private initialReconnectDelay: number;
   private reconnectDelay: number;
   private maxReconnectDelay: number;
   private maxReconnectAttempts: number;
   private reconnectTimeout: number | null = null;
   private isManualClose = false;
-  private messageQueue: ClientMessage[] = [];
+  private messageQueue: ClientFrame[] = [];
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private heartbeatTimer: number | null = null;
+  private livenessTimeout: number | null = null;
+  private resumeToken: string | null = null;
+  /** Reconnect delay the server suggested before shutting down */
+  private shutdownReconnectDelay: number | null = null;
+  private requestTimeout: number;
+  private pendingRequests: Map<string, PendingRequest> = new Map();
+  private nextRequestId = 1;
+  private getToken: WSClientConfig['getToken'];
+  private isFetchingToken = false;
+  private preferredCodec: Codec;
+  private codec: Codec = jsonCodec;
 
   constructor(config: WSClientConfig = {}) {
     // Determine WebSocket URL
-    this.url = this.resolveWebSocketUrl(config.url);
+    this.url = this.resolveWebSocketUrl(config.url, config.path);
 
-    this.reconnectDelay = config.initialReconnectDelay || 3000;
+    this.initialReconnectDelay = config.initialReconnectDelay || 3000;
+    this.reconnectDelay = this.initialReconnectDelay;
     this.maxReconnectDelay = config.maxReconnectDelay || 30000;
     this.maxReconnectAttempts = config.maxReconnectAttempts || Infinity;
+    this.heartbeatInterval = config.heartbeatInterval ?? 25000;
+    this.heartbeatTimeout = config.heartbeatTimeout ?? 10000;
+    this.requestTimeout = config.requestTimeout ?? 10000;
+    this.getToken = config.getToken;
+    this.preferredCodec = config.codec ?? jsonCodec;
 
     // Cleanup on page unload
     window.addEventListener('beforeunload', () => {
@@ -97,11 +198,48 @@ export class WSClient {
       return;
     }
 
-    console.log(`[WSClient] Connecting to ${this.url}...`);
+    // Even when a token request is already out, its result should now be used
     this.isManualClose = false;
 
+    if (this.isFetchingToken) {
+      console.log('[WSClient] Token request already in progress');
+      return;
+    }
+
+    console.log(`[WSClient] Connecting to ${this.url}...`);
+
+    if (!this.getToken) {
+      this.openSocket(null);
+      return;
+    }
+
+    // Ask for a fresh token every time; the previous one may have expired
+    this.isFetchingToken = true;
+    const getToken = this.getToken;
+    Promise.resolve()
+      .then(() => getToken())
+      .then(
+        (token) => {
+          this.isFetchingToken = false;
+          if (!this.isManualClose) this.openSocket(token);
+        },
+        (error) => {
+          this.isFetchingToken = false;
+          console.error('[WSClient] Failed to get auth token:', error);
+          if (!this.isManualClose) this.scheduleReconnect();
+        }
+      );
+  }
+
+  /**
+   * Open the socket, authenticating with `token` when there is one
+   */
+  private openSocket(token: string | null): void {
     try {
-      this.ws = new WebSocket(this.url);
+      // Offer JSON as well, so a server without the preferred codec can still agree
+      const protocols = Array.from(new Set([this.preferredCodec.name, jsonCodec.name]));
+      this.ws = new WebSocket(this.buildConnectUrl(token), protocols);
+      this.ws.binaryType = 'arraybuffer';
       this.setupEventHandlers();
     } catch (error) {
       console.error('[WSClient] Failed to create WebSocket:', error);
@@ -115,6 +253,11 @@ export class WSClient {
   disconnect(): void {
     console.log('[WSClient] Disconnecting...');
     this.isManualClose = true;
+    this.stopHeartbeat();
+
+    // Leaving on purpose ends the session; don't try to resume it later
+    this.resumeToken = null;
+    this.rejectPendingRequests(new RequestError('Disconnected', 'DISCONNECTED'));
 
     if (this.reconnectTimeout) {
       clearTimeout(this.reconnectTimeout);
@@ -122,28 +265,66 @@ export class WSClient {
     }
 
     if (this.ws) {
-      this.ws.close();
+      this.ws.close(1000);
       this.ws = null;
     }
   }
 
   /**
-   * Send a message to the server
+   * Send a message to the server (fire-and-forget)
    */
   send(message: ClientMessage): void {
+    this.sendFrame(message);
+  }
+
+  /**
+   * Send a message and wait for the server's correlated reply.
+   * Resolves with the reply, rejects with a RequestError when the server
+   * answers with an error or no reply arrives in time.
+   */
+  request(message: ClientMessage, options: RequestOptions = {}): Promise<ServerMessage> {
+    const requestId = `req_${this.nextRequestId++}`;
+    const timeoutMs = options.timeout ?? this.requestTimeout;
+
+    return new Promise<ServerMessage>((resolve, reject) => {
+      const frame: ClientFrame = { ...message, requestId };
+      const timeout = window.setTimeout(() => {
+        this.pendingRequests.delete(requestId);
+        // A request that gave up must not go out on the next connection
+        this.unqueueFrame(frame);
+        reject(new RequestError(`Request timed out after ${timeoutMs}ms`, 'TIMEOUT'));
+      }, timeoutMs);
+
+      this.pendingRequests.set(requestId, { resolve, reject, timeout, frame });
+      this.sendFrame(frame);
+    });
+  }
+
+  /**
+   * Send a frame, queuing it until the connection opens
+   */
+  private sendFrame(frame: ClientFrame): void {
     if (!this.ws || this.ws.readyState !== WebSocket.OPEN) {
       console.warn('[WSClient] Not connected, queuing message');
-      this.messageQueue.push(message);
+      this.messageQueue.push(frame);
       return;
     }
 
     try {
-      this.ws.send(JSON.stringify(message));
+      this.ws.send(this.codec.encode(frame));
     } catch (error) {
       console.error('[WSClient] Failed to send message:', error);
     }
   }
 
+  /**
+   * Remove a frame that is still waiting for the connection to open
+   */
+  private unqueueFrame(frame: ClientFrame): void {
+    const index = this.messageQueue.indexOf(frame);
+    if (index !== -1) this.messageQueue.splice(index, 1);
+  }
+
   /**
    * Check if connected
    */
@@ -165,10 +346,17 @@ export class WSClient {
    * - VITE_WS_URL lets you set a custom endpoint without code changes
    * - In dev (Vite on 5173/4173), default to port 3000 where the Fastify server runs
    * - In prod, use the current host/port so the WS rides alongside the served client
+   * - path, when given, selects the endpoint on whichever URL was picked
    */
-  private resolveWebSocketUrl(overrideUrl?: string): string {
-    if (overrideUrl) return overrideUrl;
+  private resolveWebSocketUrl(overrideUrl?: string, path?: string): string {
+    const url = overrideUrl || this.defaultWebSocketUrl();
+    return path ? new URL(path, url).toString() : url;
+  }
 
+  /**
+   * The WebSocket URL to use when no url is configured
+   */
+  private defaultWebSocketUrl(): string {
     // Allow override via Vite env var
     const envUrl = (import.meta as any)?.env?.VITE_WS_URL as string | undefined;
     if (envUrl) return envUrl;
@@ -183,6 +371,68 @@ export class WSClient {
     return `${protocol}//${hostname}${wsPort ? `:${wsPort}` : ''}`;
   }
 
+  /**
+   * Resolve or reject the request a reply belongs to.
+   * Returns false when no such request is pending (e.g. it already timed out).
+   */
+  private settleRequest(requestId: string, reply: ServerMessage): boolean {
+    const pending = this.pendingRequests.get(requestId);
+    if (!pending) return false;
+
+    clearTimeout(pending.timeout);
+    this.pendingRequests.delete(requestId);
+
+    if (reply.type === 'error') {
+      pending.reject(new RequestError(reply.payload.message, reply.payload.code, reply.payload.field));
+    } else if (reply.type === 'rateLimited') {
+      const { retryAfterMs } = reply.payload;
+      pending.reject(
+        new RequestError(`Rate limited, retry in ${retryAfterMs}ms`, 'RATE_LIMITED', undefined, retryAfterMs)
+      );
+    } else {
+      pending.resolve(reply);
+    }
+    return true;
+  }
+
+  /**
+   * Fail every outstanding request
+   */
+  private rejectPendingRequests(error: RequestError): void {
+    this.pendingRequests.forEach((pending) => {
+      clearTimeout(pending.timeout);
+      this.unqueueFrame(pending.frame);
+      pending.reject(error);
+    });
+    this.pendingRequests.clear();
+  }
+
+  /**
+   * Fail the requests sent on a connection that dropped; their replies will
+   * never arrive. Requests still queued wait for the next connection.
+   */
+  private rejectSentRequests(error: RequestError): void {
+    this.pendingRequests.forEach((pending, requestId) => {
+      if (this.messageQueue.includes(pending.frame)) return;
+      clearTimeout(pending.timeout);
+      this.pendingRequests.delete(requestId);
+      pending.reject(error);
+    });
+  }
+
+  /**
+   * Add the auth token and the resume token (if we have them) so the server
+   * knows who we are and restores our session
+   */
+  private buildConnectUrl(token: string | null): string {
+    if (!token && !this.resumeToken) return this.url;
+
+    const url = new URL(this.url, window.location.href);
+    if (token) url.searchParams.set('token', token);
+    if (this.resumeToken) url.searchParams.set('resumeToken', this.resumeToken);
+    return url.toString();
+  }
+
   /**
    * Setup WebSocket event handlers
    */
@@ -190,25 +440,39 @@ export class WSClient {
     if (!this.ws) return;
 
     this.ws.onopen = () => {
-      console.log('[WSClient] Connected');
+      this.codec = findCodec(this.ws?.protocol ?? '', [this.preferredCodec]) ?? jsonCodec;
+      console.log(`[WSClient] Connected (${this.codec.name})`);
       this.reconnectAttempts = 0;
-      this.reconnectDelay = 3000;
+      this.reconnectDelay = this.initialReconnectDelay;
+      this.startHeartbeat();
 
       // Send queued messages
       while (this.messageQueue.length > 0) {
-        const msg = this.messageQueue.shift();
-        if (msg) this.send(msg);
+        const frame = this.messageQueue.shift();
+        if (frame) this.sendFrame(frame);
       }
 
       this.callbacks.onOpen?.();
     };
 
-    this.ws.onclose = () => {
-      console.log('[WSClient] Disconnected');
-      this.callbacks.onClose?.();
+    this.ws.onclose = ({ code, reason }) => {
+      const final = !this.isManualClose && FINAL_CLOSE_CODES.has(code);
+      console.log(`[WSClient] Disconnected (${code}${reason ? `: ${reason}` : ''})`);
+      this.stopHeartbeat();
+
+      if (final) {
+        console.warn('[WSClient] Closed by the server, not reconnecting');
+        // The server ended the session; nothing queued will go out either
+        this.resumeToken = null;
+        this.rejectPendingRequests(new RequestError(reason || 'Connection closed', 'CONNECTION_LOST'));
+      }
+      this.callbacks.onClose?.({ code, reason, final });
 
-      if (!this.isManualClose) {
-        this.scheduleReconnect();
+      if (!this.isManualClose && !final) {
+        this.rejectSentRequests(new RequestError('Connection lost', 'CONNECTION_LOST'));
+        const hintedDelay = this.shutdownReconnectDelay;
+        this.shutdownReconnectDelay = null;
+        this.scheduleReconnect(hintedDelay ?? undefined);
       }
     };
 
@@ -218,9 +482,23 @@ export class WSClient {
     };
 
     this.ws.onmessage = (event) => {
+      // Any traffic proves the server is alive
+      this.clearLivenessTimeout();
+
       try {
-        const message = JSON.parse(event.data) as ServerMessage;
-        this.callbacks.onMessage?.(message);
+        const data = typeof event.data === 'string' ? event.data : new Uint8Array(event.data);
+        const frame = this.codec.decode(data) as ServerFrame;
+        if (frame.type === 'pong') return;
+        if (frame.type === 'welcome') {
+          this.checkProtocolVersion(frame.payload.protocolVersion);
+          this.resumeToken = frame.payload.resumeToken;
+        }
+        if (frame.type === 'serverShuttingDown') this.prepareForShutdown(frame.payload);
+
+        // Correlated replies settle their request instead of reaching onMessage
+        if (frame.requestId && this.settleRequest(frame.requestId, frame)) return;
+
+        this.callbacks.onMessage?.(frame);
       } catch (error) {
         console.error('[WSClient] Failed to parse message:', error);
       }
@@ -228,16 +506,109 @@ export class WSClient {
   }
 
   /**
-   * Schedule reconnection attempt with exponential backoff
+   * Ping the server periodically; browsers can't see protocol-level pings,
+   * so a silent server is only noticed through application messages
+   */
+  private startHeartbeat(): void {
+    this.stopHeartbeat();
+    if (this.heartbeatInterval <= 0) return;
+
+    this.heartbeatTimer = window.setInterval(() => {
+      if (this.ws?.readyState !== WebSocket.OPEN || this.livenessTimeout) return;
+
+      this.livenessTimeout = window.setTimeout(() => {
+        console.warn('[WSClient] Server stopped responding, reconnecting');
+        this.livenessTimeout = null;
+        this.forceReconnect();
+      }, this.heartbeatTimeout);
+
+      this.send({ type: 'ping', payload: { timestamp: Date.now() } });
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * Stop pinging and forget any pending liveness deadline
+   */
+  private stopHeartbeat(): void {
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    this.clearLivenessTimeout();
+  }
+
+  /**
+   * Clear the pending liveness deadline
+   */
+  private clearLivenessTimeout(): void {
+    if (this.livenessTimeout) {
+      clearTimeout(this.livenessTimeout);
+      this.livenessTimeout = null;
+    }
+  }
+
+  /**
+   * Abandon a dead socket without waiting for the browser's close handshake
+   */
+  private forceReconnect(): void {
+    this.stopHeartbeat();
+
+    if (this.ws) {
+      const deadSocket = this.ws;
+      deadSocket.onopen = null;
+      deadSocket.onclose = null;
+      deadSocket.onerror = null;
+      deadSocket.onmessage = null;
+      deadSocket.close();
+      this.ws = null;
+    }
+
+    this.rejectSentRequests(new RequestError('Connection lost', 'CONNECTION_LOST'));
+    this.callbacks.onClose?.({ code: 1006, reason: 'Server stopped responding', final: false });
+    this.scheduleReconnect();
+  }
+
+  /**
+   * Remember when to come back once the server closes the connection. Each
+   * client picks a random point in the jitter window, so a restart doesn't
+   * bring everyone back at the same moment.
+   */
+  private prepareForShutdown({
+    reconnectAfterMs,
+    reconnectJitterMs,
+  }: Extract<ServerMessage, { type: 'serverShuttingDown' }>['payload']): void {
+    this.shutdownReconnectDelay = Math.round(reconnectAfterMs + Math.random() * reconnectJitterMs);
+    // The session ends with this server; there is nothing to resume
+    this.resumeToken = null;
+    console.log(
+      `[WSClient] Server is shutting down, reconnecting ${this.shutdownReconnectDelay}ms after it closes`
+    );
+  }
+
+  /**
+   * Warn when the server speaks a different protocol version than this build
+   */
+  private checkProtocolVersion(serverVersion: number): void {
+    if (serverVersion !== PROTOCOL_VERSION) {
+      console.warn(
+        `[WSClient] Protocol mismatch: client v${PROTOCOL_VERSION}, server v${serverVersion}. ` +
+          'Reload the page to pick up the latest client.'
+      );
+    }
+  }
+
+  /**
+   * Schedule reconnection attempt with exponential backoff, or after the
+   * delay the server suggested when it shut down
    */
-  private scheduleReconnect(): void {
+  private scheduleReconnect(hintedDelay?: number): void {
     if (this.reconnectAttempts >= this.maxReconnectAttempts) {
       console.error('[WSClient] Max reconnect attempts reached');
       return;
     }
 
     this.reconnectAttempts++;
-    const delay = Math.min(this.reconnectDelay, this.maxReconnectDelay);
+    const delay = hintedDelay ?? Math.min(this.reconnectDelay, this.maxReconnectDelay);
 
     console.log(
       `[WSClient] Reconnecting in ${delay}ms (attempt ${this.reconnectAttempts})...`
@@ -247,7 +618,7 @@ export class WSClient {
       this.connect();
     }, delay);
 
-    // Exponential backoff
-    this.reconnectDelay *= 2;
+    // Exponential backoff (a hinted delay doesn't count as a failure)
+    if (hintedDelay === undefined) this.reconnectDelay *= 2;
   }
 }
@@ -17,6 +17,10 @@ export default defineConfig({
         target: 'ws://localhost:3000',
         ws: true,
       },
+      // Token endpoint used to authenticate the WebSocket (when AUTH_SECRET is set)
+      '/auth': {
+        target: 'http://localhost:3000',
+      },
     },
   },
   build: {
@@ -0,0 +1,125 @@
+/**
+ * Admin HTTP API
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Routes under /admin for operators to see who is connected and step in:
+ * list clients, disconnect one, or push a systemMessage to everyone or to a
+ * single client. Every request needs `Authorization: Bearer <ADMIN_TOKEN>`.
+ *
+ * The routes cover every endpoint (WSServer) in the process. In a cluster,
+ * listing and disconnecting only cover the instance that answers the
+ * request; messages reach clients on every instance.
+ */
+
+import { createHash, timingSafeEqual } from 'crypto';
+import type { FastifyPluginAsync } from 'fastify';
+import type { WSServer } from './wsServer.js';
+
+/**
+ * How the admin routes reach the server they manage
+ */
+export interface AdminApiOptions {
+  /** Shared secret expected as a Bearer token */
+  token: string;
+
+  /** The WebSocket servers to manage, empty while they are starting */
+  getServers: () => WSServer[];
+}
+
+/**
+ * Compare two secrets in constant time, whatever their lengths
+ */
+function secretsMatch(actual: string, expected: string): boolean {
+  const digest = (value: string) => createHash('sha256').update(value).digest();
+  return timingSafeEqual(digest(actual), digest(expected));
+}
+
+const textProperty = { type: 'string', minLength: 1, maxLength: 1000 } as const;
+
+/**
+ * Fastify plugin with the admin routes; register it with `prefix: '/admin'`
+ */
+export const adminApi: FastifyPluginAsync<AdminApiOptions> = async (admin, { token, getServers }) => {
+  admin.addHook('onRequest', async (request, reply) => {
+    const bearer = request.headers.authorization?.replace(/^Bearer /, '') ?? '';
+    if (!secretsMatch(bearer, token)) {
+      reply.header('WWW-Authenticate', 'Bearer').code(401).send({ error: 'Unauthorized' });
+      return reply;
+    }
+    if (getServers().length === 0) {
+      reply.code(503).send({ error: 'WebSocket server is starting' });
+      return reply;
+    }
+  });
+
+  admin.get('/clients', async () => {
+    const clients = getServers().flatMap((server) => server.listClients());
+    return { count: clients.length, clients };
+  });
+
+  admin.post<{ Params: { clientId: string }; Body: { reason?: string } | undefined }>(
+    '/clients/:clientId/disconnect',
+    {
+      schema: {
+        body: {
+          type: ['object', 'null'],
+          properties: { reason: { type: 'string', maxLength: 200 } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = request.params;
+      const reason = request.body?.reason;
+      if (!getServers().some((server) => server.disconnectClient(clientId, reason))) {
+        return reply.code(404).send({ error: `Client ${clientId} is not connected here` });
+      }
+      return { disconnected: clientId };
+    }
+  );
+
+  admin.post<{ Body: { text: string; endpoint?: string } }>(
+    '/broadcast',
+    {
+      schema: {
+        body: {
+          type: 'object',
+          required: ['text'],
+          properties: { text: textProperty, endpoint: { type: 'string' } },
+        },
+      },
+    },
+    async (request, reply) => {
+      const { text, endpoint } = request.body;
+      const servers = getServers().filter((server) => !endpoint || server.path === endpoint);
+      if (servers.length === 0) {
+        return reply.code(404).send({ error: `No endpoint ${endpoint}` });
+      }
+
+      servers.forEach((server) =>
+        server.getHelpers().broadcastAll({ type: 'systemMessage', payload: { text } })
+      );
+      return reply.code(202).send({ sent: endpoint ?? 'all' });
+    }
+  );
+
+  admin.post<{ Params: { clientId: string }; Body: { text: string } }>(
+    '/clients/:clientId/message',
+    {
+      schema: {
+        body: { type: 'object', required: ['text'], properties: { text: textProperty } },
+      },
+    },
+    async (request, reply) => {
+      const { clientId } = request.params;
+      const servers = getServers();
+      // A client held elsewhere in the cluster may belong to any endpoint
+      const owner = servers.find((server) => server.hasClient(clientId));
+      (owner ? [owner] : servers).forEach((server) =>
+        server
+          .getHelpers()
+          .sendTo(clientId, { type: 'systemMessage', payload: { text: request.body.text } })
+      );
+      return reply.code(202).send({ sent: clientId });
+    }
+  );
+};
@@ -3,24 +3,31 @@
  *
  * 🎮 This file is REPLACEABLE - customize it for your specific app.
  *
- * This demo implements a simple chat room where:
+ * This demo implements a simple multi-room chat where:
  * - Users can set their username
- * - Users can send messages that are broadcast to all
- * - System messages announce when users join/leave
+ * - Users start in the lobby and can join/leave other rooms
+ * - Users can send messages that are broadcast to their current room
+ * - Each room keeps recent messages, replayed on joining and paged back with fetchHistory
+ * - System messages announce when users join/leave a room
+ * - Everyone gets a roster of who is online, in which room, and who is away
+ * - Users see who else is typing in their room
  *
  * To create a different app (game, collaborative tool, etc.):
  * 1. Define your own State interface
  * 2. Implement createInitialState()
  * 3. Implement handleConnect(), handleDisconnect(), handleMessage()
- * 4. Update the message types in types.ts to match your needs
+ * 4. Update the message types in shared/src/protocol.ts to match your needs
  */
 
+import { randomBytes } from 'crypto';
 import type {
   AppLogic,
+  AuthIdentity,
   MessageHelpers,
   MessageContext,
   ClientMessage,
   User,
+  UserPresence,
   ChatMessage,
 } from './types.js';
 
@@ -28,13 +35,44 @@ import type {
 // STATE DEFINITION
 // ============================================================================
 
+/** Room every client is placed in when it connects */
+export const DEFAULT_ROOM = 'lobby';
+
+/** Maximum length of a room name */
+const MAX_ROOM_NAME_LENGTH = 50;
+
+/** Name users have until they pick one */
+const ANONYMOUS = 'Anonymous';
+
+/**
+ * A typing notice that isn't repeated within this many ms expires, so a
+ * client that crashed mid-sentence doesn't show as typing forever
+ */
+const TYPING_TIMEOUT_MS = 6000;
+
+/**
+ * Tunables for the chat demo
+ */
+export interface ChatOptions {
+  /** Messages kept per room; older ones are dropped (default: 100) */
+  historyLimit?: number;
+
+  /** Messages replayed on joining a room and per fetchHistory page (default: 50) */
+  historyPageSize?: number;
+}
+
+type ChatSettings = Required<ChatOptions>;
+
 /**
  * Chat application state
  * 🎮 Replace this with your own state structure
  */
 interface ChatState {
   users: Map<string, User>;
-  messageHistory: ChatMessage[];
+  /** Recent messages keyed by room name */
+  messageHistory: Map<string, ChatMessage[]>;
+  /** Expiry timer of each user who is typing, keyed by clientId */
+  typingTimers: Map<string, string>;
 }
 
 // ============================================================================
@@ -47,7 +85,8 @@ interface ChatState {
 function createInitialState(): ChatState {
   return {
     users: new Map(),
-    messageHistory: [],
+    messageHistory: new Map(),
+    typingTimers: new Map(),
   };
 }
 
@@ -57,22 +96,31 @@ function createInitialState(): ChatState {
 function handleConnect(
   state: ChatState,
   clientId: string,
-  helpers: MessageHelpers
+  helpers: MessageHelpers,
+  identity: AuthIdentity | null,
+  settings: ChatSettings
 ): void {
-  // Create user with default username
+  // Create user, named after their token if it carries a name
+  const name = identity?.claims.name;
   const user: User = {
     clientId,
-    username: 'Anonymous',
+    username: typeof name === 'string' && name ? name : ANONYMOUS,
     connectedAt: Date.now(),
+    room: null,
+    status: 'online',
   };
 
   state.users.set(clientId, user);
 
-  // Send welcome message to the new client
+  // Everyone starts out in the lobby
+  enterRoom(state, user, DEFAULT_ROOM, helpers, settings);
+
+  // The newcomer gets the whole roster, everyone else just the newcomer
   helpers.sendTo(clientId, {
-    type: 'welcome',
-    payload: { clientId },
+    type: 'userList',
+    payload: { users: Array.from(state.users.values(), toPresence) },
   });
+  helpers.broadcastExcept(clientId, { type: 'presenceChanged', payload: toPresence(user) });
 
   console.log(`[AppLogic] User ${clientId} connected (${state.users.size} total users)`);
 }
@@ -88,22 +136,48 @@ function handleDisconnect(
   const user = state.users.get(clientId);
 
   if (user) {
-    // Notify others that user left
-    helpers.broadcastAll({
-      type: 'userLeft',
-      payload: { username: user.username },
-    });
+    stopTyping(state, user, helpers);
+
+    // Notify the user's room that they left (WSServer drops the membership itself)
+    if (user.room) {
+      helpers.broadcastToRoom(
+        user.room,
+        { type: 'userLeft', payload: { username: user.username, room: user.room } },
+        clientId
+      );
+    }
 
     state.users.delete(clientId);
+    helpers.broadcastAll({ type: 'presenceRemoved', payload: { clientId } });
     console.log(`[AppLogic] User ${user.username} (${clientId}) disconnected`);
   }
 }
 
+/**
+ * Handle a dropped connection that may still come back
+ */
+function handleSuspend(state: ChatState, clientId: string): void {
+  const user = state.users.get(clientId);
+  if (user) {
+    console.log(`[AppLogic] User ${user.username} (${clientId}) dropped, waiting for resume`);
+  }
+}
+
+/**
+ * Handle a client picking its session back up
+ */
+function handleResume(state: ChatState, clientId: string): void {
+  const user = state.users.get(clientId);
+  if (user) {
+    console.log(`[AppLogic] User ${user.username} (${clientId}) resumed in room ${user.room}`);
+  }
+}
+
 /**
  * Handle incoming messages from clients
  */
-function handleMessage(state: ChatState, context: MessageContext): void {
-  const { clientId, message, helpers } = context;
+function handleMessage(state: ChatState, context: MessageContext, settings: ChatSettings): void {
+  const { clientId, message } = context;
   const user = state.users.get(clientId);
 
   if (!user) {
@@ -114,19 +188,40 @@ function handleMessage(state: ChatState, context: MessageContext): void {
   // Route message based on type
   switch (message.type) {
     case 'setUsername':
-      handleSetUsername(state, clientId, message, helpers);
+      handleSetUsername(state, context, message);
       break;
 
     case 'sendMessage':
-      handleSendMessage(state, clientId, message, helpers);
+      handleSendMessage(state, context, message, settings);
+      break;
+
+    case 'joinRoom':
+      handleJoinRoom(state, context, message, settings);
+      break;
+
+    case 'leaveRoom':
+      handleLeaveRoom(state, context, message);
+      break;
+
+    case 'fetchHistory':
+      handleFetchHistory(state, context, message, settings);
+      break;
+
+    case 'typingStarted':
+      handleTypingStarted(state, context, message);
+      break;
+
+    case 'typingStopped':
+      handleTypingStopped(state, context, message);
+      break;
+
+    case 'setStatus':
+      handleSetStatus(state, context, message);
       break;
 
     default:
       console.warn(`[AppLogic] Unknown message type from ${clientId}:`, message);
-      helpers.sendTo(clientId, {
-        type: 'error',
-        payload: { message: 'Unknown message type' },
-      });
+      context.replyError('Unknown message type');
   }
 }
 
@@ -139,26 +234,29 @@ function handleMessage(state: ChatState, context: MessageContext): void {
  */
 function handleSetUsername(
   state: ChatState,
-  clientId: string,
-  message: Extract<ClientMessage, { type: 'setUsername' }>,
-  helpers: MessageHelpers
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'setUsername' }>
 ): void {
+  const { clientId, helpers } = context;
   const user = state.users.get(clientId);
   if (!user) return;
 
-  const newUsername = message.payload.username.trim() || 'Anonymous';
+  const newUsername = message.payload.username.trim() || ANONYMOUS;
   const oldUsername = user.username;
 
+  if (newUsername === oldUsername) return;
+
   // Update username
   user.username = newUsername;
 
   console.log(`[AppLogic] User ${clientId} changed name: ${oldUsername} → ${newUsername}`);
+  announcePresence(user, helpers);
 
-  // Notify all clients that user joined (or changed name)
-  if (oldUsername === 'Anonymous' && newUsername !== 'Anonymous') {
-    helpers.broadcastAll({
+  // Notify the user's room that they joined (or changed name)
+  if (oldUsername === ANONYMOUS && newUsername !== ANONYMOUS && user.room) {
+    helpers.broadcastToRoom(user.room, {
       type: 'userJoined',
-      payload: { username: newUsername },
+      payload: { username: newUsername, room: user.room },
     });
   }
 }
@@ -168,55 +266,408 @@ function handleSetUsername(
  */
 function handleSendMessage(
   state: ChatState,
-  clientId: string,
+  context: MessageContext,
   message: Extract<ClientMessage, { type: 'sendMessage' }>,
-  helpers: MessageHelpers
+  settings: ChatSettings
 ): void {
+  const { clientId, helpers } = context;
   const user = state.users.get(clientId);
   if (!user) return;
 
   const text = message.payload.text.trim();
+  const room = user.room;
 
   // Validate message
+  if (!room) {
+    context.replyError('Join a room before sending messages');
+    return;
+  }
+
   if (!text) {
-    helpers.sendTo(clientId, {
-      type: 'error',
-      payload: { message: 'Message cannot be empty' },
-    });
+    context.replyError('Message cannot be empty');
     return;
   }
 
   if (text.length > 500) {
-    helpers.sendTo(clientId, {
-      type: 'error',
-      payload: { message: 'Message too long (max 500 characters)' },
-    });
+    context.replyError('Message too long (max 500 characters)');
     return;
   }
 
   // Create chat message
   const chatMessage: ChatMessage = {
+    id: generateMessageId(),
     username: user.username,
     text,
     timestamp: Date.now(),
     clientId,
+    room,
+  };
+
+  // Add to the room's history
+  let history = state.messageHistory.get(room);
+  if (!history) {
+    history = [];
+    state.messageHistory.set(room, history);
+  }
+  history.push(chatMessage);
+
+  // Keep only the most recent messages per room
+  if (history.length > settings.historyLimit) {
+    history.splice(0, history.length - settings.historyLimit);
+  }
+
+  console.log(`[AppLogic] [${room}] ${user.username}: ${text}`);
+
+  // The message replaces the typing indicator
+  stopTyping(state, user, helpers);
+
+  // Broadcast to the rest of the room; the sender gets it as the reply
+  helpers.broadcastToRoom(room, { type: 'chatMessage', payload: chatMessage }, clientId);
+  context.reply({ type: 'chatMessage', payload: chatMessage });
+}
+
+/**
+ * Handle request to join a room (leaves the current room first)
+ */
+function handleJoinRoom(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'joinRoom' }>,
+  settings: ChatSettings
+): void {
+  const { clientId, helpers } = context;
+  const user = state.users.get(clientId);
+  if (!user) return;
+
+  const room = message.payload.room.trim();
+
+  if (!room) {
+    context.replyError('Room name cannot be empty');
+    return;
+  }
+
+  if (room.length > MAX_ROOM_NAME_LENGTH) {
+    context.replyError(`Room name too long (max ${MAX_ROOM_NAME_LENGTH} characters)`);
+    return;
+  }
+
+  if (user.room === room) return;
+
+  if (user.room) {
+    exitRoom(state, user, helpers);
+  }
+  enterRoom(state, user, room, helpers, settings);
+  announcePresence(user, helpers);
+}
+
+/**
+ * Handle request to leave a room
+ */
+function handleLeaveRoom(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'leaveRoom' }>
+): void {
+  const { clientId, helpers } = context;
+  const user = state.users.get(clientId);
+  if (!user) return;
+
+  if (user.room !== message.payload.room.trim()) {
+    context.replyError('You are not in that room');
+    return;
+  }
+
+  exitRoom(state, user, helpers);
+  announcePresence(user, helpers);
+}
+
+/**
+ * Handle a request for an older page of the current room's history
+ */
+function handleFetchHistory(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'fetchHistory' }>,
+  settings: ChatSettings
+): void {
+  const user = state.users.get(context.clientId);
+  if (!user) return;
+
+  const { room, before, limit = settings.historyPageSize } = message.payload;
+  if (user.room !== room.trim()) {
+    context.replyError('You are not in that room');
+    return;
+  }
+
+  const pageSize = Math.min(limit, settings.historyLimit);
+  context.reply({
+    type: 'history',
+    payload: { room: user.room, ...pageHistory(state, user.room, before, pageSize) },
+  });
+}
+
+/**
+ * Handle the user typing. Clients repeat this while typing goes on; repeats
+ * only push back the expiry, so the room hears about each stretch of typing once.
+ */
+function handleTypingStarted(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'typingStarted' }>
+): void {
+  const { clientId, helpers } = context;
+  const user = state.users.get(clientId);
+  // Notices for a room the user just left are stale, not mistakes
+  if (!user || !user.room || user.room !== message.payload.room.trim()) return;
+
+  const timerId = state.typingTimers.get(clientId);
+  if (timerId) {
+    helpers.clearTimer(timerId);
+  } else {
+    broadcastTyping(user, true, helpers);
+  }
+
+  state.typingTimers.set(
+    clientId,
+    helpers.setTimer(TYPING_TIMEOUT_MS, () => stopTyping(state, user, helpers))
+  );
+}
+
+/**
+ * Handle the user pausing or clearing what they were typing
+ */
+function handleTypingStopped(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'typingStopped' }>
+): void {
+  const user = state.users.get(context.clientId);
+  if (!user || user.room !== message.payload.room.trim()) return;
+
+  stopTyping(state, user, context.helpers);
+}
+
+/**
+ * Handle the client reporting that the user went idle or came back
+ */
+function handleSetStatus(
+  state: ChatState,
+  context: MessageContext,
+  message: Extract<ClientMessage, { type: 'setStatus' }>
+): void {
+  const user = state.users.get(context.clientId);
+  if (!user || user.status === message.payload.status) return;
+
+  user.status = message.payload.status;
+  announcePresence(user, context.helpers);
+}
+
+// ============================================================================
+// PRESENCE HELPERS
+// ============================================================================
+
+/**
+ * What the roster shows about a user
+ */
+function toPresence(user: User): UserPresence {
+  return {
+    clientId: user.clientId,
+    username: user.username === ANONYMOUS ? null : user.username,
+    room: user.room,
+    status: user.status,
   };
+}
 
-  // Add to history
-  state.messageHistory.push(chatMessage);
+/**
+ * Tell everyone, the user included, how the user now looks in the roster
+ */
+function announcePresence(user: User, helpers: MessageHelpers): void {
+  helpers.broadcastAll({ type: 'presenceChanged', payload: toPresence(user) });
+}
+
+// ============================================================================
+// TYPING HELPERS
+// ============================================================================
+
+/**
+ * Tell everyone but the typer that they started or stopped typing. Clients
+ * show it for their own room only.
+ */
+function broadcastTyping(user: User, typing: boolean, helpers: MessageHelpers): void {
+  if (!user.room) return;
+
+  helpers.broadcastExcept(
+    user.clientId,
+    {
+      type: 'userTyping',
+      payload: { clientId: user.clientId, username: user.username, room: user.room, typing },
+    },
+    // A missed start only hides the indicator; a missed stop would leave it stuck
+    { droppable: typing }
+  );
+}
+
+/**
+ * Clear a user's typing notice, if they have one
+ */
+function stopTyping(state: ChatState, user: User, helpers: MessageHelpers): void {
+  const timerId = state.typingTimers.get(user.clientId);
+  if (!timerId) return;
 
-  // Keep only last 100 messages
-  if (state.messageHistory.length > 100) {
-    state.messageHistory.shift();
+  helpers.clearTimer(timerId);
+  state.typingTimers.delete(user.clientId);
+  broadcastTyping(user, false, helpers);
+}
+
+// ============================================================================
+// HISTORY HELPERS
+// ============================================================================
+
+/**
+ * Create an id for a chat message
+ */
+function generateMessageId(): string {
+  return `msg_${randomBytes(8).toString('hex')}`;
+}
+
+/**
+ * Up to `limit` messages from a room, ending just before the message with id
+ * `before` (or with the latest message). A cursor that has aged out of the
+ * history has nothing older left to page through.
+ */
+function pageHistory(
+  state: ChatState,
+  room: string,
+  before: string | undefined,
+  limit: number
+): { messages: ChatMessage[]; hasMore: boolean } {
+  const history = state.messageHistory.get(room) ?? [];
+  const end = before === undefined ? history.length : history.findIndex(({ id }) => id === before);
+  if (end === -1) {
+    return { messages: [], hasMore: false };
   }
 
-  console.log(`[AppLogic] ${user.username}: ${text}`);
+  const start = Math.max(end - limit, 0);
+  return { messages: history.slice(start, end), hasMore: start > 0 };
+}
+
+// ============================================================================
+// ROOM HELPERS
+// ============================================================================
 
-  // Broadcast to all clients
-  helpers.broadcastAll({
-    type: 'chatMessage',
-    payload: chatMessage,
+/**
+ * Put a user in a room, catch them up on its history and tell the room about it
+ */
+function enterRoom(
+  state: ChatState,
+  user: User,
+  room: string,
+  helpers: MessageHelpers,
+  settings: ChatSettings
+): void {
+  helpers.joinRoom(user.clientId, room);
+  user.room = room;
+
+  const members = helpers
+    .listRoomMembers(room)
+    .map((memberId) => state.users.get(memberId)?.username)
+    .filter((username): username is string => username !== undefined);
+
+  helpers.sendTo(user.clientId, {
+    type: 'roomJoined',
+    payload: { room, members },
+  });
+
+  helpers.sendTo(user.clientId, {
+    type: 'history',
+    payload: { room, ...pageHistory(state, room, undefined, settings.historyPageSize) },
   });
+
+  if (user.username !== ANONYMOUS) {
+    helpers.broadcastToRoom(
+      room,
+      { type: 'userJoined', payload: { username: user.username, room } },
+      user.clientId
+    );
+  }
+
+  console.log(`[AppLogic] ${user.username} (${user.clientId}) joined room ${room}`);
+}
+
+/**
+ * Take a user out of their current room and tell them and the room about it
+ */
+function exitRoom(state: ChatState, user: User, helpers: MessageHelpers): void {
+  const room = user.room;
+  if (!room) return;
+
+  stopTyping(state, user, helpers);
+
+  helpers.leaveRoom(user.clientId, room);
+  user.room = null;
+
+  helpers.sendTo(user.clientId, {
+    type: 'roomLeft',
+    payload: { room },
+  });
+
+  helpers.broadcastToRoom(room, {
+    type: 'userLeft',
+    payload: { username: user.username, room },
+  });
+
+  console.log(`[AppLogic] ${user.username} (${user.clientId}) left room ${room}`);
+}
+
+// ============================================================================
+// PERSISTENCE
+// ============================================================================
+
+/**
+ * ChatState as plain data for snapshots
+ */
+interface SerializedChatState {
+  messageHistory: [string, ChatMessage[]][];
+}
+
+/**
+ * Snapshot the chat history. Users are tied to live connections, which don't
+ * survive a restart, so they are left out.
+ */
+function serializeState(state: ChatState): SerializedChatState {
+  return { messageHistory: Array.from(state.messageHistory.entries()) };
+}
+
+/**
+ * Rebuild ChatState from a snapshot, trimmed to the current history limit.
+ * Messages saved before they carried ids get one.
+ */
+function deserializeState(data: unknown, settings: ChatSettings): ChatState {
+  const state = createInitialState();
+  const history = (data as Partial<SerializedChatState> | null)?.messageHistory;
+  if (Array.isArray(history)) {
+    state.messageHistory = new Map(
+      history.map(([room, messages]) => [
+        room,
+        messages
+          .slice(-settings.historyLimit)
+          .map((message) => ({ ...message, id: message.id ?? generateMessageId() })),
+      ])
+    );
+  }
+  return state;
+}
+
+// ============================================================================
+// ADMIN
+// ============================================================================
+
+/**
+ * What the admin API shows about a client
+ */
+function describeClient(state: ChatState, clientId: string): Record<string, unknown> {
+  const user = state.users.get(clientId);
+  return user ? { username: user.username, room: user.room, status: user.status } : {};
 }
 
 // ============================================================================
@@ -224,13 +675,31 @@ function handleSendMessage(
 // ============================================================================
 
 /**
- * Export the app logic implementation
+ * Build the chat app logic with its history settings
  *
  * 🎮 Replace this entire export with your own game/app logic
  */
-export const chatAppLogic: AppLogic<ChatState> = {
-  createInitialState,
-  handleConnect,
-  handleDisconnect,
-  handleMessage,
-};
+export function createChatAppLogic(options: ChatOptions = {}): AppLogic<ChatState> {
+  const settings: ChatSettings = {
+    historyLimit: options.historyLimit ?? 100,
+    historyPageSize: options.historyPageSize ?? 50,
+  };
+
+  return {
+    createInitialState,
+    handleConnect: (state, clientId, helpers, identity) =>
+      handleConnect(state, clientId, helpers, identity, settings),
+    handleDisconnect,
+    handleSuspend,
+    handleResume,
+    handleMessage: (state, context) => handleMessage(state, context, settings),
+    serializeState,
+    deserializeState: (data) => deserializeState(data, settings),
+    describeClient,
+  };
+}
+
+/**
+ * The chat app logic with default settings
+ */
+export const chatAppLogic = createChatAppLogic();
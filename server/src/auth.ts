@@ -0,0 +1,148 @@
+/**
+ * Connection Authentication
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * WSServer calls an Authenticator during the HTTP upgrade; returning null
+ * rejects the connection with 401 before a WebSocket is ever opened.
+ *
+ * Included is a self-contained signed-token implementation (HS256 JWTs
+ * signed with AUTH_SECRET) so the template works without an external
+ * identity provider. Swap in your own Authenticator to use a real one.
+ */
+
+import { createHmac, timingSafeEqual } from 'crypto';
+import type { IncomingMessage } from 'http';
+import type { AuthIdentity } from './types.js';
+
+/**
+ * Decides who is connecting, or null to reject the upgrade. `url` is the
+ * request target, already parsed by WSServer.
+ */
+export type Authenticator = (
+  request: IncomingMessage,
+  url: URL
+) => AuthIdentity | null | Promise<AuthIdentity | null>;
+
+/** Query string parameter carrying the token */
+export const TOKEN_QUERY_PARAM = 'token';
+
+/** Cookie carrying the token */
+export const TOKEN_COOKIE = 'ws_token';
+
+/** Sec-WebSocket-Protocol entries starting with this carry the token */
+export const TOKEN_PROTOCOL_PREFIX = 'auth.';
+
+// ============================================================================
+// TOKEN EXTRACTION
+// ============================================================================
+
+/**
+ * Find the token in the upgrade request: query string, then
+ * Sec-WebSocket-Protocol, then cookie
+ */
+export function extractToken(request: IncomingMessage, url: URL): string | null {
+  const fromQuery = url.searchParams.get(TOKEN_QUERY_PARAM);
+  if (fromQuery) return fromQuery;
+
+  const protocols = request.headers['sec-websocket-protocol'];
+  if (protocols) {
+    const entry = protocols
+      .split(',')
+      .map((protocol) => protocol.trim())
+      .find((protocol) => protocol.startsWith(TOKEN_PROTOCOL_PREFIX));
+    if (entry) return entry.slice(TOKEN_PROTOCOL_PREFIX.length);
+  }
+
+  const cookies = request.headers.cookie;
+  if (cookies) {
+    for (const cookie of cookies.split(';')) {
+      const [name, ...value] = cookie.trim().split('=');
+      if (name === TOKEN_COOKIE) return decodeURIComponent(value.join('='));
+    }
+  }
+
+  return null;
+}
+
+// ============================================================================
+// SIGNED TOKENS
+// ============================================================================
+
+/**
+ * Claims carried by a signed token
+ */
+export interface TokenClaims {
+  /** Subject: the stable user id */
+  sub: string;
+  /** Issued at (seconds since epoch) */
+  iat: number;
+  /** Expires at (seconds since epoch) */
+  exp: number;
+  [claim: string]: unknown;
+}
+
+const TOKEN_HEADER = base64url(JSON.stringify({ alg: 'HS256', typ: 'JWT' }));
+
+function base64url(value: string | Buffer): string {
+  return Buffer.from(value).toString('base64url');
+}
+
+function sign(data: string, secret: string): Buffer {
+  return createHmac('sha256', secret).update(data).digest();
+}
+
+/**
+ * Create an HS256 token for a user, valid for `expiresInSeconds`
+ */
+export function signToken(
+  sub: string,
+  secret: string,
+  extraClaims: Record<string, unknown> = {},
+  expiresInSeconds = 3600
+): string {
+  const now = Math.floor(Date.now() / 1000);
+  const claims: TokenClaims = { ...extraClaims, sub, iat: now, exp: now + expiresInSeconds };
+  const body = `${TOKEN_HEADER}.${base64url(JSON.stringify(claims))}`;
+  return `${body}.${base64url(sign(body, secret))}`;
+}
+
+/**
+ * Check a token's signature and expiry, returning its claims or null
+ */
+export function verifyToken(token: string, secret: string): TokenClaims | null {
+  const parts = token.split('.');
+  if (parts.length !== 3) return null;
+
+  const [header, payload, signature] = parts;
+  if (header !== TOKEN_HEADER) return null;
+
+  const expected = sign(`${header}.${payload}`, secret);
+  const actual = Buffer.from(signature, 'base64url');
+  if (actual.length !== expected.length || !timingSafeEqual(actual, expected)) {
+    return null;
+  }
+
+  try {
+    const claims = JSON.parse(Buffer.from(payload, 'base64url').toString()) as TokenClaims;
+    if (typeof claims.sub !== 'string' || typeof claims.exp !== 'number') return null;
+    if (claims.exp <= Math.floor(Date.now() / 1000)) return null;
+    return claims;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Authenticator accepting tokens created by signToken() with the same secret
+ */
+export function createTokenAuthenticator(secret: string): Authenticator {
+  return (request, url) => {
+    const token = extractToken(request, url);
+    if (!token) return null;
+
+    const claims = verifyToken(token, secret);
+    if (!claims) return null;
+
+    return { userId: claims.sub, claims };
+  };
+}
@@ -0,0 +1,85 @@
+/**
+ * Cluster Adapter
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * WSServer only owns the sockets in its own process. To run several
+ * instances behind a load balancer, every broadcast and every sendTo for a
+ * client owned by another instance is published through a PubSubAdapter;
+ * each instance delivers what it receives to its own sockets.
+ *
+ * InMemoryAdapter keeps everything in one process (the default). See
+ * redisAdapter.ts for fanning out across machines.
+ */
+
+import { EventEmitter } from 'events';
+import type { SendOptions, ServerFrame } from './types.js';
+
+/**
+ * A helper call to carry out on every instance
+ */
+export type ClusterDelivery = {
+  message: ServerFrame;
+  options?: SendOptions;
+} & (
+  | { kind: 'broadcastAll' }
+  | { kind: 'broadcastExcept'; excludeClientId: string }
+  | { kind: 'sendTo'; clientId: string }
+  | { kind: 'broadcastToRoom'; room: string; excludeClientId?: string }
+);
+
+/**
+ * A delivery as it travels between instances
+ */
+export type ClusterEnvelope = ClusterDelivery & {
+  /** Instance that published it; it already delivered to its own sockets */
+  origin: string;
+};
+
+/**
+ * Transport connecting WSServer instances
+ */
+export interface PubSubAdapter {
+  /**
+   * Start receiving envelopes from every instance (including our own, which
+   * WSServer ignores). Resolves once delivery is live.
+   */
+  subscribe(handler: (envelope: ClusterEnvelope) => void): void | Promise<void>;
+
+  /** Send an envelope to every subscribed instance */
+  publish(envelope: ClusterEnvelope): void;
+
+  /** Stop publishing and receiving */
+  close(): void;
+}
+
+const ENVELOPE_EVENT = 'envelope';
+
+/**
+ * Adapter for instances living in the same process. With its own bus (the
+ * default) it is a single-node setup; pass one shared EventEmitter to several
+ * WSServers to connect them.
+ */
+export class InMemoryAdapter implements PubSubAdapter {
+  private handler: ((envelope: ClusterEnvelope) => void) | null = null;
+
+  constructor(private readonly bus: EventEmitter = new EventEmitter()) {
+    // Every WSServer on a shared bus adds a listener
+    bus.setMaxListeners(0);
+  }
+
+  subscribe(handler: (envelope: ClusterEnvelope) => void): void {
+    this.handler = handler;
+    this.bus.on(ENVELOPE_EVENT, handler);
+  }
+
+  publish(envelope: ClusterEnvelope): void {
+    this.bus.emit(ENVELOPE_EVENT, envelope);
+  }
+
+  close(): void {
+    if (this.handler) {
+      this.bus.off(ENVELOPE_EVENT, this.handler);
+      this.handler = null;
+    }
+  }
+}
@@ -0,0 +1,57 @@
+/**
+ * Inbound Message Steps
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * What happens to a client message between decoding and app logic, shared
+ * by WSServer and the TestHarness so the two handle messages the same way.
+ */
+
+import type { ValidationResult } from 'websocket-template-shared';
+import type { MessageContext, Middleware, ServerFrame } from './types.js';
+
+/**
+ * The frame that answers a message without involving app logic: an
+ * INVALID_MESSAGE error when validation failed, or a pong for the
+ * application-level ping. Null when the message goes on to handleMessage.
+ */
+export function immediateReply(result: ValidationResult): ServerFrame | null {
+  const { requestId } = result;
+  if (!result.ok) {
+    const { message, field } = result.error;
+    return { type: 'error', payload: { message, code: 'INVALID_MESSAGE', field }, requestId };
+  }
+  if (result.message.type === 'ping') {
+    return { type: 'pong', payload: result.message.payload, requestId };
+  }
+  return null;
+}
+
+/**
+ * Pass a message through each middleware's inbound step, then to `handle`.
+ * Errors from middleware or `handle` reach the caller, and so does a
+ * middleware calling next() twice.
+ */
+export async function runInbound(
+  middleware: Middleware[],
+  context: MessageContext,
+  handle: () => void | Promise<void>
+): Promise<void> {
+  const chain = middleware.filter((entry) => entry.inbound);
+
+  const dispatch = async (index: number): Promise<void> => {
+    const inbound = chain[index]?.inbound;
+    if (!inbound) {
+      await handle();
+      return;
+    }
+
+    let called = false;
+    await inbound(context, () => {
+      if (called) throw new Error(`Middleware ${chain[index].name ?? index} called next() twice`);
+      called = true;
+      return dispatch(index + 1);
+    });
+  };
+
+  await dispatch(0);
+}
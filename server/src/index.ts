@@ -10,9 +10,17 @@ import fastifyCors from '@fastify/cors';
 import fastifyStatic from '@fastify/static';
 import { fileURLToPath } from 'url';
 import { dirname, join } from 'path';
+import { randomUUID } from 'crypto';
 import { config } from 'dotenv';
-import { WSServer } from './wsServer.js';
-import { chatAppLogic } from './appLogic.js';
+import { WSServer, BACKPRESSURE_POLICIES, type BackpressurePolicy } from './wsServer.js';
+import { createChatAppLogic } from './appLogic.js';
+import type { AppLogic } from './types.js';
+import type { RateLimit } from './rateLimiter.js';
+import { createTokenAuthenticator, signToken, verifyToken } from './auth.js';
+import { RedisAdapter } from './redisAdapter.js';
+import { FileStateStore, SqliteStateStore, type StateStore } from './stateStore.js';
+import { METRICS_CONTENT_TYPE, createServerMetrics } from './metrics.js';
+import { adminApi } from './adminApi.js';
 
 // Load environment variables
 config();
@@ -24,7 +32,81 @@ const __dirname = dirname(__filename);
 const PORT = parseInt(process.env.PORT || '3000', 10);
 const HOST = process.env.HOST || '0.0.0.0';
 const CLIENT_URL = process.env.CLIENT_URL || 'http://localhost:5173';
+// CLIENT_URL may list several origins, comma separated
+const CLIENT_ORIGINS = CLIENT_URL.split(',').map((origin) => origin.trim()).filter(Boolean);
 const IS_PRODUCTION = process.env.NODE_ENV === 'production';
+const HEARTBEAT_INTERVAL_MS = parseInt(process.env.HEARTBEAT_INTERVAL_MS || '30000', 10);
+const HEARTBEAT_TIMEOUT_MS = parseInt(process.env.HEARTBEAT_TIMEOUT_MS || '10000', 10);
+const RESUME_GRACE_PERIOD_MS = parseInt(process.env.RESUME_GRACE_PERIOD_MS || '30000', 10);
+const AUTH_SECRET = process.env.AUTH_SECRET || '';
+const AUTH_TOKEN_TTL_SECONDS = parseInt(process.env.AUTH_TOKEN_TTL_SECONDS || '3600', 10);
+const AUTH_GUEST_TOKENS = process.env.AUTH_GUEST_TOKENS === 'true';
+const RATE_LIMIT_PER_SECOND = parseFloat(process.env.RATE_LIMIT_PER_SECOND || '20');
+const RATE_LIMIT_BURST = parseInt(process.env.RATE_LIMIT_BURST || '40', 10);
+const CHAT_RATE_LIMIT_PER_SECOND = parseFloat(process.env.CHAT_RATE_LIMIT_PER_SECOND || '2');
+const CHAT_RATE_LIMIT_BURST = parseInt(process.env.CHAT_RATE_LIMIT_BURST || '5', 10);
+const CHAT_HISTORY_LIMIT = parseInt(process.env.CHAT_HISTORY_LIMIT || '100', 10);
+const BACKPRESSURE_POLICY = parseBackpressurePolicy(process.env.BACKPRESSURE_POLICY || 'drop');
+const BACKPRESSURE_HIGH_WATER_MARK = parseInt(process.env.BACKPRESSURE_HIGH_WATER_MARK || '1048576', 10);
+const BACKPRESSURE_MAX_BUFFERED = parseInt(process.env.BACKPRESSURE_MAX_BUFFERED || '16777216', 10);
+const REDIS_URL = process.env.REDIS_URL || '';
+const REDIS_CHANNEL = process.env.REDIS_CHANNEL || 'ws-template';
+const STATE_STORE = process.env.STATE_STORE || 'none';
+const STATE_DIR = process.env.STATE_DIR || 'data';
+const SNAPSHOT_INTERVAL_MS = parseInt(process.env.SNAPSHOT_INTERVAL_MS || '60000', 10);
+const ADMIN_TOKEN = process.env.ADMIN_TOKEN || '';
+const TICK_RATE = parseFloat(process.env.TICK_RATE || '20');
+const MAX_CONNECTIONS = parseInt(process.env.MAX_CONNECTIONS || '0', 10);
+const MAX_CONNECTIONS_PER_IP = parseInt(process.env.MAX_CONNECTIONS_PER_IP || '0', 10);
+const MAX_PAYLOAD_BYTES = parseInt(process.env.MAX_PAYLOAD_BYTES || '1048576', 10);
+const HANDSHAKE_TIMEOUT_MS = parseInt(process.env.HANDSHAKE_TIMEOUT_MS || '10000', 10);
+const DRAIN_TIMEOUT_MS = parseInt(process.env.DRAIN_TIMEOUT_MS || '10000', 10);
+const DRAIN_RECONNECT_AFTER_MS = parseInt(process.env.DRAIN_RECONNECT_AFTER_MS || '1000', 10);
+const DRAIN_RECONNECT_JITTER_MS = parseInt(process.env.DRAIN_RECONNECT_JITTER_MS || '5000', 10);
+
+/**
+ * Check BACKPRESSURE_POLICY against the policies WSServer knows, so a typo
+ * stops the server at startup
+ */
+function parseBackpressurePolicy(value: string): BackpressurePolicy {
+  const policy = BACKPRESSURE_POLICIES.find((known) => known === value);
+  if (!policy) {
+    throw new Error(`BACKPRESSURE_POLICY must be one of ${BACKPRESSURE_POLICIES.join(' | ')}, got "${value}"`);
+  }
+  return policy;
+}
+
+// ============================================================================
+// ENDPOINTS
+// ============================================================================
+
+/**
+ * An app mounted on its own WebSocket path, with its own state and clients
+ */
+interface Endpoint {
+  /** Short name used in /health, state file names and the Redis channel */
+  name: string;
+  path: string;
+  appLogic: AppLogic<any>;
+  /** Extra rate limits for this app's message types */
+  rateLimits?: Record<string, RateLimit>;
+}
+
+/**
+ * 🎮 CUSTOMIZATION POINT: the apps this server hosts. Add a game (or a v2
+ * protocol) next to the chat, e.g.
+ * { name: 'game', path: '/ws/game', appLogic: gameAppLogic }
+ */
+const ENDPOINTS: Endpoint[] = [
+  {
+    name: 'chat',
+    path: '/ws/chat',
+    appLogic: createChatAppLogic({ historyLimit: CHAT_HISTORY_LIMIT }),
+    rateLimits: {
+      sendMessage: { perSecond: CHAT_RATE_LIMIT_PER_SECOND, burst: CHAT_RATE_LIMIT_BURST },
+    },
+  },
+];
 
 // ============================================================================
 // FASTIFY SETUP
@@ -38,7 +120,7 @@ const fastify = Fastify({
 
 // CORS for development
 fastify.register(fastifyCors, {
-  origin: IS_PRODUCTION ? false : CLIENT_URL,
+  origin: IS_PRODUCTION ? false : CLIENT_ORIGINS,
   credentials: true,
 });
 
@@ -56,15 +138,74 @@ if (IS_PRODUCTION) {
 // ROUTES
 // ============================================================================
 
-// Health check endpoint
-fastify.get('/health', async () => {
+// Health check endpoint: totals plus a breakdown per endpoint. Answers 503
+// while draining so load balancers stop sending new clients here.
+fastify.get('/health', async (_request, reply) => {
+  const servers = Array.from(wsServers.values());
+  const total = (count: (server: WSServer) => number) =>
+    servers.reduce((sum, server) => sum + count(server), 0);
+
+  reply.code(isShuttingDown ? 503 : 200);
   return {
-    status: 'ok',
+    status: isShuttingDown ? 'draining' : 'ok',
     timestamp: new Date().toISOString(),
-    clients: wsServer?.getClientCount() || 0,
+    clients: total((server) => server.getClientCount()),
+    suspended: total((server) => server.getSuspendedCount()),
+    rateLimited: total((server) => server.getRateLimitedCount()),
+    rateLimitDisconnects: total((server) => server.getRateLimitDisconnectCount()),
+    droppedMessages: total((server) => server.getDroppedMessageCount()),
+    slowConsumerDisconnects: total((server) => server.getSlowConsumerDisconnectCount()),
+    handlerErrors: total((server) => server.getHandlerErrorCount()),
+    rejectedUpgrades: total((server) => server.getRejectedUpgradeCount()),
+    endpoints: Object.fromEntries(
+      Array.from(wsServers, ([name, server]) => [
+        name,
+        {
+          path: server.path,
+          clients: server.getClientCount(),
+          suspended: server.getSuspendedCount(),
+          rooms: server.getRoomCount(),
+        },
+      ])
+    ),
   };
 });
 
+// Prometheus scrape endpoint, every endpoint labeled by path
+fastify.get('/metrics', async (_request, reply) => {
+  reply.type(METRICS_CONTENT_TYPE);
+  return serverMetrics.registry.render();
+});
+
+// Demo token endpoint: hands out signed guest tokens to anyone, with any
+// name, so the template works without an identity provider. That defeats
+// AUTH_SECRET as a gate, hence its own opt-in; replace it with your real
+// login flow. Presenting a still-valid token as a Bearer keeps the same user id.
+if (AUTH_SECRET && AUTH_GUEST_TOKENS) {
+  fastify.post<{ Body: { username?: unknown } | undefined }>('/auth/token', async (request) => {
+    const bearer = request.headers.authorization?.replace(/^Bearer /, '');
+    const previous = bearer ? verifyToken(bearer, AUTH_SECRET) : null;
+    const userId = previous?.sub ?? `user_${randomUUID()}`;
+
+    const rawName = request.body?.username;
+    const name = typeof rawName === 'string' ? rawName.trim().slice(0, 50) : '';
+
+    return {
+      token: signToken(userId, AUTH_SECRET, name ? { name } : {}, AUTH_TOKEN_TTL_SECONDS),
+      expiresIn: AUTH_TOKEN_TTL_SECONDS,
+    };
+  });
+}
+
+// Admin API for operators, only when a token is configured
+if (ADMIN_TOKEN) {
+  fastify.register(adminApi, {
+    prefix: '/admin',
+    token: ADMIN_TOKEN,
+    getServers: () => Array.from(wsServers.values()),
+  });
+}
+
 // Root endpoint (for production, serves index.html)
 if (!IS_PRODUCTION) {
   fastify.get('/', async () => {
@@ -73,7 +214,12 @@ if (!IS_PRODUCTION) {
       status: 'running',
       endpoints: {
         health: '/health',
-        websocket: `ws://${HOST}:${PORT}`,
+        metrics: '/metrics',
+        ...(ADMIN_TOKEN ? { admin: '/admin/clients' } : {}),
+        ...(AUTH_SECRET && AUTH_GUEST_TOKENS ? { token: '/auth/token' } : {}),
+        websockets: Object.fromEntries(
+          ENDPOINTS.map(({ name, path }) => [name, `ws://${HOST}:${PORT}${path}`])
+        ),
         client: CLIENT_URL,
       },
     };
@@ -84,7 +230,71 @@ if (!IS_PRODUCTION) {
 // WEBSOCKET SERVER
 // ============================================================================
 
-let wsServer: WSServer | null = null;
+/**
+ * Pick an endpoint's snapshot store from STATE_STORE (none | file | sqlite)
+ */
+function createStateStore(name: string): StateStore | null {
+  switch (STATE_STORE) {
+    case 'file':
+      return new FileStateStore(join(STATE_DIR, `${name}.json`));
+    case 'sqlite':
+      return new SqliteStateStore(join(STATE_DIR, `${name}.db`));
+    default:
+      return null;
+  }
+}
+
+/**
+ * Mount one endpoint on the HTTP server
+ */
+function createEndpointServer({ name, path, appLogic, rateLimits }: Endpoint): WSServer {
+  const stateStore = createStateStore(name);
+  return new WSServer(fastify.server, appLogic, {
+    path,
+    metrics: serverMetrics,
+    heartbeatInterval: HEARTBEAT_INTERVAL_MS,
+    heartbeatTimeout: HEARTBEAT_TIMEOUT_MS,
+    resumeGracePeriod: RESUME_GRACE_PERIOD_MS,
+    tickRate: TICK_RATE,
+    authenticate: AUTH_SECRET ? createTokenAuthenticator(AUTH_SECRET) : undefined,
+    rateLimit:
+      RATE_LIMIT_PER_SECOND > 0
+        ? {
+            global: { perSecond: RATE_LIMIT_PER_SECOND, burst: RATE_LIMIT_BURST },
+            perType: rateLimits,
+          }
+        : undefined,
+    backpressure: {
+      policy: BACKPRESSURE_POLICY,
+      highWaterMark: BACKPRESSURE_HIGH_WATER_MARK,
+      maxBufferedAmount: BACKPRESSURE_MAX_BUFFERED,
+    },
+    // Each endpoint gets its own channel so apps never see each other's messages
+    adapter: REDIS_URL
+      ? new RedisAdapter({ url: REDIS_URL, channel: `${REDIS_CHANNEL}:${name}` })
+      : undefined,
+    persistence: stateStore
+      ? { store: stateStore, snapshotInterval: SNAPSHOT_INTERVAL_MS }
+      : undefined,
+    // Browsers may connect from the client's origin(s) or this server's own
+    admission: {
+      allowedOrigins: CLIENT_ORIGINS,
+      maxConnections: MAX_CONNECTIONS > 0 ? MAX_CONNECTIONS : undefined,
+      maxConnectionsPerAddress: MAX_CONNECTIONS_PER_IP > 0 ? MAX_CONNECTIONS_PER_IP : undefined,
+      maxPayload: MAX_PAYLOAD_BYTES,
+      handshakeTimeout: HANDSHAKE_TIMEOUT_MS,
+    },
+    drain: {
+      timeout: DRAIN_TIMEOUT_MS,
+      reconnectAfter: DRAIN_RECONNECT_AFTER_MS,
+      reconnectJitter: DRAIN_RECONNECT_JITTER_MS,
+    },
+  });
+}
+
+const serverMetrics = createServerMetrics();
+const wsServers: Map<string, WSServer> = new Map();
+let isShuttingDown = false;
 
 // Start server
 async function start() {
@@ -92,19 +302,27 @@ async function start() {
     // Start HTTP server
     await fastify.listen({ port: PORT, host: HOST });
 
-    // Initialize WebSocket server with app logic
-    wsServer = new WSServer(fastify.server, chatAppLogic);
+    // Mount a WebSocket server per endpoint, each with its own app logic
+    ENDPOINTS.forEach((endpoint) => wsServers.set(endpoint.name, createEndpointServer(endpoint)));
+    await Promise.all(Array.from(wsServers.values(), (server) => server.ready()));
 
     fastify.log.info('\n' + '='.repeat(60));
     fastify.log.info('🚀 WebSocket Template Server');
     fastify.log.info('='.repeat(60));
     fastify.log.info(`📡 HTTP Server: http://${HOST}:${PORT}`);
-    fastify.log.info(`🔌 WebSocket: ws://${HOST}:${PORT}`);
+    ENDPOINTS.forEach(({ name, path }) => {
+      fastify.log.info(`🔌 WebSocket (${name}): ws://${HOST}:${PORT}${path}`);
+    });
     if (!IS_PRODUCTION) {
       fastify.log.info(`🖥️  Client Dev: ${CLIENT_URL}`);
     }
     fastify.log.info(`🌍 LAN Access: ws://<your-ip>:${PORT}`);
     fastify.log.info(`🏥 Health Check: http://${HOST}:${PORT}/health`);
+    fastify.log.info(`📊 Metrics: http://${HOST}:${PORT}/metrics`);
+    fastify.log.info(`🛠️  Admin API: ${ADMIN_TOKEN ? `http://${HOST}:${PORT}/admin` : 'off (set ADMIN_TOKEN)'}`);
+    fastify.log.info(`🔐 Auth: ${AUTH_SECRET ? `signed tokens required${AUTH_GUEST_TOKENS ? ', guest tokens from /auth/token' : ''}` : 'off (set AUTH_SECRET)'}`);
+    fastify.log.info(`💾 State: ${STATE_STORE !== 'none' ? `${STATE_STORE} snapshots in ${STATE_DIR}/` : 'in memory only (set STATE_STORE)'}`);
+    fastify.log.info(`🛰️  Cluster: ${REDIS_URL ? `Redis channels "${REDIS_CHANNEL}:<endpoint>"` : 'single instance (set REDIS_URL)'}`);
     fastify.log.info('='.repeat(60) + '\n');
 
     if (HOST === '0.0.0.0') {
@@ -122,12 +340,14 @@ async function start() {
 // ============================================================================
 
 async function closeGracefully(signal: string) {
-  fastify.log.info(`\n🛑 Received ${signal}, closing gracefully...`);
+  // A second signal during the drain shouldn't start another one
+  if (isShuttingDown) return;
+  isShuttingDown = true;
+  fastify.log.info(`\n🛑 Received ${signal}, draining for up to ${DRAIN_TIMEOUT_MS}ms...`);
 
-  // Close WebSocket server
-  if (wsServer) {
-    wsServer.close();
-  }
+  // Tell clients to reconnect elsewhere, close the stragglers with 1001
+  // and flush final state snapshots
+  await Promise.all(Array.from(wsServers.values(), (server) => server.close()));
 
   // Close Fastify server
   await fastify.close();
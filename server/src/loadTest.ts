@@ -0,0 +1,412 @@
+/**
+ * Load Test CLI
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Opens many WebSocket clients against a running server and plays the chat
+ * scenario: connect, setUsername, join a room, then sendMessage at a fixed
+ * rate. Every chat message carries its send time, so the clients receiving
+ * the broadcast measure end-to-end latency. Prints a report, or JSON with
+ * --json.
+ *
+ *   npm run loadtest -- --clients 500 --rate 1 --duration 30
+ *
+ * The bots use the chat protocol; swap out runBot's join and send steps
+ * when your app speaks a different one. Keep --rate under the server's
+ * per-type rate limit (CHAT_RATE_LIMIT_PER_SECOND), or the report fills up
+ * with rateLimited answers.
+ */
+
+import { parseArgs } from 'util';
+import { pathToFileURL } from 'url';
+import { WebSocket } from 'ws';
+import { findCodec, jsonCodec, msgpackCodec, type Codec } from 'websocket-template-shared';
+import type { ClientMessage, ServerMessage } from './types.js';
+
+/**
+ * What to run
+ */
+export interface LoadTestOptions {
+  /** WebSocket endpoint, e.g. ws://localhost:3000/ws/chat */
+  url: string;
+  /** Number of concurrent clients */
+  clients: number;
+  /** Messages each client sends per second */
+  rate: number;
+  /** How long clients keep sending in ms, once all are connected */
+  duration: number;
+  /** Time over which connections are opened in ms */
+  rampUp: number;
+  /** How long to wait for in-flight broadcasts after sending stops in ms */
+  settle: number;
+  /** Room the bots join, so real users aren't flooded */
+  room: string;
+  codec: Codec;
+  /** Auth token for servers with AUTH_SECRET set */
+  token: string | null;
+}
+
+/**
+ * Summary of a latency distribution in ms
+ */
+export interface Percentiles {
+  count: number;
+  mean: number;
+  p50: number;
+  p90: number;
+  p99: number;
+  max: number;
+}
+
+/**
+ * Everything a run measured
+ */
+export interface LoadTestReport {
+  url: string;
+  clients: number;
+  rate: number;
+  durationMs: number;
+  connections: {
+    opened: number;
+    failed: number;
+    /** Handshake errors by message, e.g. 'Unexpected server response: 429' */
+    failures: Record<string, number>;
+    /** Connections the server closed before the run ended */
+    unexpectedDisconnects: number;
+    /** Close codes of the unexpected disconnects */
+    closeCodes: Record<string, number>;
+    connectTimeMs: Percentiles;
+  };
+  messages: {
+    sent: number;
+    /** Broadcast copies received by the other clients in the room */
+    delivered: number;
+    errors: number;
+    rateLimited: number;
+  };
+  throughput: {
+    sentPerSecond: number;
+    deliveredPerSecond: number;
+  };
+  latencyMs: Percentiles;
+}
+
+/** Marks the bots' messages so traffic from real users is ignored */
+const MESSAGE_PREFIX = 'loadtest';
+
+/**
+ * Summarize samples with nearest-rank percentiles
+ */
+export function summarize(samples: number[]): Percentiles {
+  if (samples.length === 0) return { count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 };
+
+  const sorted = [...samples].sort((a, b) => a - b);
+  const at = (percentile: number) =>
+    sorted[Math.min(sorted.length - 1, Math.ceil((percentile / 100) * sorted.length) - 1)];
+  const round = (value: number) => Math.round(value * 100) / 100;
+
+  return {
+    count: sorted.length,
+    mean: round(sorted.reduce((sum, value) => sum + value, 0) / sorted.length),
+    p50: round(at(50)),
+    p90: round(at(90)),
+    p99: round(at(99)),
+    max: round(sorted[sorted.length - 1]),
+  };
+}
+
+/**
+ * Counts shared by every bot in a run
+ */
+class RunStats {
+  opened = 0;
+  failures: Record<string, number> = {};
+  unexpectedDisconnects = 0;
+  closeCodes: Record<string, number> = {};
+  connectTimes: number[] = [];
+  sent = 0;
+  delivered = 0;
+  errors = 0;
+  rateLimited = 0;
+  latencies: number[] = [];
+
+  count(bucket: Record<string, number>, key: string): void {
+    bucket[key] = (bucket[key] ?? 0) + 1;
+  }
+}
+
+/**
+ * One simulated user. Resolves once connected and in the room, or rejects
+ * when the connection fails.
+ */
+function runBot(index: number, options: LoadTestOptions, stats: RunStats, isRunning: () => boolean) {
+  const url = new URL(options.url);
+  if (options.token) url.searchParams.set('token', options.token);
+
+  const startedAt = performance.now();
+  const ws = new WebSocket(url, [options.codec.name]);
+  let codec: Codec = jsonCodec;
+  let opened = false;
+  let startTimer: ReturnType<typeof setTimeout> | null = null;
+  let sendTimer: ReturnType<typeof setInterval> | null = null;
+
+  const send = (message: ClientMessage) => {
+    if (ws.readyState === WebSocket.OPEN) ws.send(codec.encode(message));
+  };
+
+  const ready = new Promise<void>((resolve, reject) => {
+    ws.once('open', () => {
+      opened = true;
+      stats.opened++;
+      stats.connectTimes.push(performance.now() - startedAt);
+      codec = findCodec(ws.protocol) ?? jsonCodec;
+      send({ type: 'setUsername', payload: { username: `bot-${index}` } });
+      send({ type: 'joinRoom', payload: { room: options.room } });
+      resolve();
+    });
+    // Errors after the handshake end in 'close', which is counted there
+    ws.on('error', (error) => {
+      if (opened) return;
+      stats.count(stats.failures, error.message);
+      reject(error);
+    });
+  });
+
+  ws.on('close', (code) => {
+    stopSending();
+    if (opened && isRunning()) {
+      stats.unexpectedDisconnects++;
+      stats.count(stats.closeCodes, String(code));
+    }
+  });
+
+  ws.on('message', (data: Buffer, isBinary) => {
+    let message: ServerMessage;
+    try {
+      message = codec.decode(isBinary ? data : data.toString()) as ServerMessage;
+    } catch {
+      stats.errors++;
+      return;
+    }
+
+    if (message.type === 'error') {
+      stats.errors++;
+    } else if (message.type === 'rateLimited') {
+      stats.rateLimited++;
+    } else if (message.type === 'chatMessage') {
+      const [prefix, sender, sentAt] = message.payload.text.split(':');
+      // The sender's own copy is the reply, not a broadcast
+      if (prefix === MESSAGE_PREFIX && sender !== String(index)) {
+        stats.delivered++;
+        stats.latencies.push(performance.now() - Number(sentAt));
+      }
+    }
+  });
+
+  /** Start sending, at a random offset so bots don't send in lockstep */
+  const startSending = () => {
+    const interval = 1000 / options.rate;
+    const tick = () => {
+      stats.sent++;
+      const text = `${MESSAGE_PREFIX}:${index}:${performance.now().toFixed(3)}`;
+      send({ type: 'sendMessage', payload: { text } });
+    };
+    startTimer = setTimeout(() => {
+      if (ws.readyState !== WebSocket.OPEN) return;
+      tick();
+      sendTimer = setInterval(tick, interval);
+    }, Math.random() * interval);
+  };
+
+  const stopSending = () => {
+    if (startTimer) clearTimeout(startTimer);
+    if (sendTimer) clearInterval(sendTimer);
+    sendTimer = null;
+  };
+
+  const close = () =>
+    new Promise<void>((resolve) => {
+      if (ws.readyState === WebSocket.CLOSED) return resolve();
+      ws.once('close', () => resolve());
+      ws.close(1000);
+    });
+
+  return { ready, startSending, stopSending, close };
+}
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+/**
+ * Run the scenario and measure it. `log` gets progress lines.
+ */
+export async function runLoadTest(
+  options: LoadTestOptions,
+  log: (line: string) => void = () => {}
+): Promise<LoadTestReport> {
+  const stats = new RunStats();
+  let running = true;
+  const bots: ReturnType<typeof runBot>[] = [];
+  const connecting: Promise<void>[] = [];
+
+  log(`Opening ${options.clients} connections to ${options.url} over ${options.rampUp}ms...`);
+  const spacing = options.clients > 1 ? options.rampUp / (options.clients - 1) : 0;
+  for (let index = 0; index < options.clients; index++) {
+    if (index > 0 && spacing > 0) await sleep(spacing);
+    const bot = runBot(index, options, stats, () => running);
+    bots.push(bot);
+    connecting.push(bot.ready.catch(() => {}));
+  }
+  await Promise.all(connecting);
+  log(`${stats.opened} connected, ${options.clients - stats.opened} failed`);
+
+  if (stats.opened > 0) {
+    log(`Sending ${options.rate} msg/s per client for ${options.duration}ms...`);
+    bots.forEach((bot) => bot.startSending());
+    await sleep(options.duration);
+    bots.forEach((bot) => bot.stopSending());
+
+    // Broadcasts still in flight count; late ones show up as high latency
+    await sleep(options.settle);
+  }
+  running = false;
+  await Promise.all(bots.map((bot) => bot.close()));
+
+  const seconds = options.duration / 1000;
+  return {
+    url: options.url,
+    clients: options.clients,
+    rate: options.rate,
+    durationMs: options.duration,
+    connections: {
+      opened: stats.opened,
+      failed: options.clients - stats.opened,
+      failures: stats.failures,
+      unexpectedDisconnects: stats.unexpectedDisconnects,
+      closeCodes: stats.closeCodes,
+      connectTimeMs: summarize(stats.connectTimes),
+    },
+    messages: {
+      sent: stats.sent,
+      delivered: stats.delivered,
+      errors: stats.errors,
+      rateLimited: stats.rateLimited,
+    },
+    throughput: {
+      sentPerSecond: Math.round(stats.sent / seconds),
+      deliveredPerSecond: Math.round(stats.delivered / seconds),
+    },
+    latencyMs: summarize(stats.latencies),
+  };
+}
+
+/**
+ * Render a report for humans
+ */
+export function formatReport(report: LoadTestReport): string {
+  const { connections, messages, throughput, latencyMs } = report;
+  const spread = (p: Percentiles) =>
+    `p50 ${p.p50}ms  p90 ${p.p90}ms  p99 ${p.p99}ms  max ${p.max}ms  (n=${p.count})`;
+  const counts = (bucket: Record<string, number>) =>
+    Object.entries(bucket)
+      .map(([key, count]) => `${key} ×${count}`)
+      .join(', ');
+
+  const lines = [
+    `Load test against ${report.url}`,
+    `  ${report.clients} clients × ${report.rate} msg/s for ${report.durationMs / 1000}s`,
+    '',
+    'Connections',
+    `  opened        ${connections.opened}`,
+    `  failed        ${connections.failed}${connections.failed ? `  (${counts(connections.failures)})` : ''}`,
+    `  dropped       ${connections.unexpectedDisconnects}${
+      connections.unexpectedDisconnects ? `  (close codes: ${counts(connections.closeCodes)})` : ''
+    }`,
+    `  connect time  ${spread(connections.connectTimeMs)}`,
+    '',
+    'Messages',
+    `  sent          ${messages.sent}  (${throughput.sentPerSecond}/s)`,
+    `  delivered     ${messages.delivered}  (${throughput.deliveredPerSecond}/s)`,
+    `  errors        ${messages.errors}`,
+    `  rate limited  ${messages.rateLimited}`,
+    '',
+    'Broadcast latency',
+    `  ${spread(latencyMs)}`,
+  ];
+  return lines.join('\n');
+}
+
+/**
+ * Turn command-line arguments into options; throws on bad input
+ */
+export function parseOptions(argv: string[]): LoadTestOptions & { json: boolean } {
+  const { values } = parseArgs({
+    args: argv,
+    options: {
+      url: { type: 'string', default: 'ws://localhost:3000/ws/chat' },
+      clients: { type: 'string', short: 'c', default: '100' },
+      rate: { type: 'string', short: 'r', default: '1' },
+      duration: { type: 'string', short: 'd', default: '30' },
+      'ramp-up': { type: 'string', default: '5' },
+      settle: { type: 'string', default: '2' },
+      room: { type: 'string', default: 'loadtest' },
+      codec: { type: 'string', default: 'json' },
+      token: { type: 'string' },
+      json: { type: 'boolean', default: false },
+    },
+  });
+
+  const number = (name: string, value: string, min: number) => {
+    const parsed = Number(value);
+    if (!Number.isFinite(parsed) || parsed < min) {
+      throw new Error(`--${name} must be a number of at least ${min}, got ${value}`);
+    }
+    return parsed;
+  };
+
+  const codec = findCodec(values.codec!, [jsonCodec, msgpackCodec]);
+  if (!codec) throw new Error(`--codec must be json or msgpack, got ${values.codec}`);
+
+  return {
+    url: values.url!,
+    clients: Math.floor(number('clients', values.clients!, 1)),
+    rate: number('rate', values.rate!, 0.01),
+    duration: number('duration', values.duration!, 0.1) * 1000,
+    rampUp: number('ramp-up', values['ramp-up']!, 0) * 1000,
+    settle: number('settle', values.settle!, 0) * 1000,
+    room: values.room!,
+    codec,
+    token: values.token ?? process.env.LOADTEST_TOKEN ?? null,
+    json: values.json!,
+  };
+}
+
+const USAGE = `Usage: npm run loadtest -- [options]
+
+  --url <ws-url>      Endpoint to test (default: ws://localhost:3000/ws/chat)
+  -c, --clients <n>   Concurrent clients (default: 100)
+  -r, --rate <n>      Messages per second per client (default: 1)
+  -d, --duration <s>  Seconds of sending once everyone is connected (default: 30)
+  --ramp-up <s>       Seconds over which to open the connections (default: 5)
+  --settle <s>        Seconds to wait for in-flight broadcasts (default: 2)
+  --room <name>       Room the bots chat in (default: loadtest)
+  --codec <name>      json or msgpack (default: json)
+  --token <token>     Auth token when AUTH_SECRET is set (or LOADTEST_TOKEN)
+  --json              Print the report as JSON`;
+
+async function main(): Promise<void> {
+  let options: ReturnType<typeof parseOptions>;
+  try {
+    options = parseOptions(process.argv.slice(2));
+  } catch (error) {
+    console.error(`${(error as Error).message}\n\n${USAGE}`);
+    process.exit(2);
+  }
+
+  // Progress goes to stderr so --json output can be piped
+  const report = await runLoadTest(options, (line) => console.error(`[LoadTest] ${line}`));
+  console.log(options.json ? JSON.stringify(report, null, 2) : formatReport(report));
+  process.exit(report.connections.opened === 0 ? 1 : 0);
+}
+
+if (process.argv[1] && import.meta.url === pathToFileURL(process.argv[1]).href) {
+  main();
+}
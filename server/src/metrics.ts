@@ -0,0 +1,280 @@
+/**
+ * Prometheus Metrics
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * A small counter / gauge / histogram registry that renders the Prometheus
+ * text exposition format, plus the metrics WSServer records about its
+ * traffic. Serve `wsServer.renderMetrics()` from an HTTP route to scrape it.
+ */
+
+type Labels = Record<string, string>;
+
+/** Default histogram buckets in seconds, the same as the Prometheus clients use */
+export const DEFAULT_BUCKETS = [0.005, 0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+/**
+ * Escape a label value for the text format
+ */
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"');
+}
+
+/**
+ * Render a label set as `{a="1",b="2"}`, or nothing when empty
+ */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([name, value]) => `${name}="${escapeLabelValue(value)}"`);
+  return pairs.length > 0 ? `{${pairs.join(',')}}` : '';
+}
+
+/**
+ * Stable key for a label set, independent of property order
+ */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map((name) => [name, labels[name]]));
+}
+
+/**
+ * Anything the registry can render
+ */
+interface Metric {
+  render(): string[];
+}
+
+/**
+ * Shared bookkeeping for metrics that keep one value per label set
+ */
+abstract class LabeledMetric<Value> implements Metric {
+  protected series: Map<string, { labels: Labels; value: Value }> = new Map();
+  /** Labels added to every update made through this view */
+  protected boundLabels: Labels = {};
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    private readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  /**
+   * A view of this metric that adds `labels` to everything recorded through
+   * it, e.g. one per endpoint. Views share the series, so the metric still
+   * renders once.
+   */
+  withLabels(labels: Labels): this {
+    const view = Object.create(this) as this;
+    view.boundLabels = { ...this.boundLabels, ...labels };
+    return view;
+  }
+
+  protected getSeries(labels: Labels, create: () => Value): { labels: Labels; value: Value } {
+    const allLabels = { ...this.boundLabels, ...labels };
+    const key = labelKey(allLabels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: allLabels, value: create() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  render(): string[] {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()];
+  }
+
+  protected abstract samples(): string[];
+}
+
+/**
+ * A value that only goes up
+ */
+export class Counter extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, amount = 1): void {
+    this.getSeries(labels, () => 0).value += amount;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(labelKey({ ...this.boundLabels, ...labels }))?.value ?? 0;
+  }
+
+  /**
+   * Sum over every label set recorded through this view
+   */
+  total(): number {
+    let sum = 0;
+    this.series.forEach(({ labels, value }) => {
+      const inView = Object.entries(this.boundLabels).every(([name, bound]) => labels[name] === bound);
+      if (inView) sum += value;
+    });
+    return sum;
+  }
+
+  protected samples(): string[] {
+    // An unlabeled counter reads 0 before its first increment
+    if (this.series.size === 0) return [`${this.name} 0`];
+    return Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * A value that goes up and down
+ */
+export class Gauge extends LabeledMetric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(value: number, labels: Labels = {}): void {
+    this.getSeries(labels, () => 0).value = value;
+  }
+
+  protected samples(): string[] {
+    if (this.series.size === 0) return [`${this.name} 0`];
+    return Array.from(this.series.values(), ({ labels, value }) => `${this.name}${formatLabels(labels)} ${value}`);
+  }
+}
+
+/**
+ * Observations counted into cumulative buckets
+ */
+export class Histogram extends LabeledMetric<{ counts: number[]; sum: number; count: number }> {
+  constructor(
+    name: string,
+    help: string,
+    private readonly buckets: number[] = DEFAULT_BUCKETS
+  ) {
+    super(name, help, 'histogram');
+  }
+
+  observe(value: number, labels: Labels = {}): void {
+    const entry = this.getSeries(labels, () => ({
+      counts: this.buckets.map(() => 0),
+      sum: 0,
+      count: 0,
+    })).value;
+
+    this.buckets.forEach((bound, index) => {
+      if (value <= bound) entry.counts[index]++;
+    });
+    entry.sum += value;
+    entry.count++;
+  }
+
+  protected samples(): string[] {
+    const lines: string[] = [];
+    this.series.forEach(({ labels, value }) => {
+      this.buckets.forEach((bound, index) => {
+        const bucketLabels = formatLabels({ ...labels, le: String(bound) });
+        lines.push(`${this.name}_bucket${bucketLabels} ${value.counts[index]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    });
+    return lines;
+  }
+}
+
+/**
+ * A set of metrics rendered together
+ */
+export class MetricsRegistry {
+  private metrics: Metric[] = [];
+  private collectors: Set<() => void> = new Set();
+
+  register<M extends Metric>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+
+  /**
+   * Run `collect` before every render, e.g. to set gauges from live values.
+   * Returns a function that removes it again.
+   */
+  onCollect(collect: () => void): () => void {
+    this.collectors.add(collect);
+    return () => this.collectors.delete(collect);
+  }
+
+  /**
+   * Everything in the Prometheus text exposition format (version 0.0.4)
+   */
+  render(): string {
+    this.collectors.forEach((collect) => collect());
+    return this.metrics.flatMap((metric) => metric.render()).join('\n') + '\n';
+  }
+}
+
+/** Content-Type to serve render() output with */
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+// ============================================================================
+// WEBSOCKET METRICS
+// ============================================================================
+
+/**
+ * What WSServer records about its traffic
+ */
+export function createServerMetrics(registry = new MetricsRegistry()) {
+  return {
+    registry,
+    connections: registry.register(new Gauge('ws_connections', 'Currently connected clients')),
+    suspendedSessions: registry.register(
+      new Gauge('ws_suspended_sessions', 'Dropped sessions waiting to be resumed')
+    ),
+    connectionsTotal: registry.register(
+      new Counter('ws_connections_total', 'New sessions started')
+    ),
+    rejectedUpgrades: registry.register(
+      new Counter('ws_rejected_upgrades_total', 'Upgrades refused before a socket opened, by reason')
+    ),
+    resumesTotal: registry.register(
+      new Counter('ws_resumes_total', 'Reconnects presenting a resume token, by outcome (resumed or rejected)')
+    ),
+    disconnectsTotal: registry.register(
+      new Counter('ws_disconnects_total', 'Closed sockets by WebSocket close code')
+    ),
+    messagesReceived: registry.register(
+      new Counter('ws_messages_received_total', 'Valid client messages by type')
+    ),
+    messagesSent: registry.register(
+      new Counter('ws_messages_sent_total', 'Messages written to clients by type')
+    ),
+    bytesReceived: registry.register(
+      new Counter('ws_received_bytes_total', 'Bytes received in WebSocket frames')
+    ),
+    bytesSent: registry.register(
+      new Counter('ws_sent_bytes_total', 'Bytes written in WebSocket frames')
+    ),
+    messageErrors: registry.register(
+      new Counter('ws_message_errors_total', 'Rejected or failed client messages by reason (parse, validation, handler)')
+    ),
+    rateLimited: registry.register(
+      new Counter('ws_rate_limited_total', 'Client messages rejected by the rate limiter')
+    ),
+    droppedMessages: registry.register(
+      new Counter('ws_dropped_messages_total', 'Droppable messages skipped for slow clients')
+    ),
+    handlerDuration: registry.register(
+      new Histogram('ws_handler_duration_seconds', 'Time spent in middleware and handleMessage by message type')
+    ),
+  };
+}
+
+/** The metrics WSServer records */
+export type ServerMetrics = ReturnType<typeof createServerMetrics>;
+
+/**
+ * Views of the server metrics that add `labels` to everything, so several
+ * WSServers can record into one registry
+ */
+export function labelServerMetrics(metrics: ServerMetrics, labels: Labels): ServerMetrics {
+  const labeled = Object.entries(metrics).map(([key, metric]) => [
+    key,
+    metric instanceof LabeledMetric ? metric.withLabels(labels) : metric,
+  ]);
+  return Object.fromEntries(labeled) as ServerMetrics;
+}
@@ -0,0 +1,24 @@
+/**
+ * Built-in Middleware
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Middleware registered with WSServer.use() sees every client message on its
+ * way to app logic and every server message on its way out. See the
+ * Middleware interface in types.ts for the contract.
+ */
+
+import type { Middleware } from './types.js';
+
+/**
+ * Log every inbound message with its sender. WSServer installs this one by
+ * default; pass your own `middleware` list to leave it out.
+ */
+export function createLoggingMiddleware(): Middleware {
+  return {
+    name: 'logging',
+    inbound: async ({ clientId, message }, next) => {
+      console.log(`[WSServer] Message from ${clientId}:`, message);
+      await next();
+    },
+  };
+}
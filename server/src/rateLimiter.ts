@@ -0,0 +1,140 @@
+/**
+ * Per-Client Rate Limiting
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * WSServer gives every connection a ClientRateLimiter: a token bucket for
+ * all inbound frames plus optional buckets per message type. Clients that
+ * keep hitting the limit are reported so the server can disconnect them.
+ */
+
+/**
+ * A token bucket: `burst` messages at once, refilled at `perSecond`
+ */
+export interface RateLimit {
+  /** Bucket size, i.e. how many messages may arrive back to back */
+  burst: number;
+
+  /** Sustained messages per second */
+  perSecond: number;
+}
+
+/**
+ * Rate limiting configuration for WSServer
+ */
+export interface RateLimitOptions {
+  /** Limit on every frame a connection sends (default: no global limit) */
+  global?: RateLimit;
+
+  /** Extra limits for individual message types, e.g. `sendMessage` */
+  perType?: Record<string, RateLimit>;
+
+  /** Rejected messages tolerated within `violationWindow` before disconnecting (default: 20) */
+  maxViolations?: number;
+
+  /** Window for counting rejected messages in ms (default: 10000) */
+  violationWindow?: number;
+}
+
+/**
+ * Throw unless a limit can actually let messages through. A rate of zero
+ * never refills, so its retry-after would be Infinity.
+ */
+function assertUsableLimit(name: string, { burst, perSecond }: RateLimit): void {
+  if (!(Number.isFinite(perSecond) && perSecond > 0)) {
+    throw new Error(`Rate limit "${name}": perSecond must be a positive number, got ${perSecond}`);
+  }
+  if (!(Number.isFinite(burst) && burst >= 1)) {
+    throw new Error(`Rate limit "${name}": burst must be at least 1, got ${burst}`);
+  }
+}
+
+/**
+ * Throw when the global limit or any per-type limit is unusable
+ */
+export function validateRateLimitOptions(options: RateLimitOptions): void {
+  if (options.global) assertUsableLimit('global', options.global);
+  Object.entries(options.perType ?? {}).forEach(([type, limit]) => assertUsableLimit(type, limit));
+}
+
+/**
+ * Classic token bucket, refilled lazily whenever it is checked
+ */
+export class TokenBucket {
+  private tokens: number;
+  private lastRefill: number;
+
+  constructor(
+    private readonly limit: RateLimit,
+    now = Date.now()
+  ) {
+    assertUsableLimit('bucket', limit);
+    this.tokens = limit.burst;
+    this.lastRefill = now;
+  }
+
+  /**
+   * Take one token. Returns 0 when allowed, otherwise how many ms until
+   * the next token is available.
+   */
+  take(now = Date.now()): number {
+    const elapsedSeconds = Math.max(0, now - this.lastRefill) / 1000;
+    this.tokens = Math.min(this.limit.burst, this.tokens + elapsedSeconds * this.limit.perSecond);
+    this.lastRefill = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+
+    return Math.ceil(((1 - this.tokens) / this.limit.perSecond) * 1000);
+  }
+}
+
+/**
+ * All the buckets for one connection, plus its record of violations
+ */
+export class ClientRateLimiter {
+  private global: TokenBucket | null;
+  private perType: Map<string, TokenBucket> = new Map();
+  private violations: number[] = [];
+  private maxViolations: number;
+  private violationWindow: number;
+
+  constructor(private readonly options: RateLimitOptions) {
+    validateRateLimitOptions(options);
+    this.global = options.global ? new TokenBucket(options.global) : null;
+    this.maxViolations = options.maxViolations ?? 20;
+    this.violationWindow = options.violationWindow ?? 10000;
+  }
+
+  /**
+   * Check a frame against the global bucket and, when the type is known,
+   * its per-type bucket. Returns 0 when allowed, otherwise the retry-after in ms.
+   */
+  check(messageType: string | null, now = Date.now()): number {
+    const globalWait = this.global?.take(now) ?? 0;
+    if (globalWait > 0) return globalWait;
+
+    const limit = messageType ? this.options.perType?.[messageType] : undefined;
+    if (!messageType || !limit) return 0;
+
+    let bucket = this.perType.get(messageType);
+    if (!bucket) {
+      bucket = new TokenBucket(limit, now);
+      this.perType.set(messageType, bucket);
+    }
+    return bucket.take(now);
+  }
+
+  /**
+   * Remember a rejected message. Returns true once the client has been
+   * rejected more than `maxViolations` times within the window.
+   */
+  recordViolation(now = Date.now()): boolean {
+    this.violations.push(now);
+    while (this.violations.length > 0 && this.violations[0] <= now - this.violationWindow) {
+      this.violations.shift();
+    }
+    return this.violations.length > this.maxViolations;
+  }
+}
@@ -0,0 +1,300 @@
+/**
+ * Redis Pub/Sub Adapter
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Fans WSServer deliveries out to every instance through a Redis channel.
+ * It speaks just enough of the Redis protocol (RESP) for AUTH, SUBSCRIBE and
+ * PUBLISH, so it works with Redis, Valkey, KeyDB or anything compatible
+ * without a client library. Envelopes travel as MessagePack.
+ */
+
+import { createConnection, type Socket } from 'net';
+import { msgpackCodec } from 'websocket-template-shared';
+import type { ClusterEnvelope, PubSubAdapter } from './clusterAdapter.js';
+
+/**
+ * Where and how to reach Redis
+ */
+export interface RedisAdapterOptions {
+  /** Server URL, optionally with a password: redis://:secret@host:port (default: redis://127.0.0.1:6379) */
+  url?: string;
+
+  /** Channel the instances share (default: 'ws-template') */
+  channel?: string;
+
+  /** Delay before reconnecting after the connection drops in ms (default: 1000) */
+  reconnectDelay?: number;
+
+  /** How long subscribe() waits for Redis to confirm the subscription in ms (default: 10000) */
+  connectTimeout?: number;
+}
+
+// ============================================================================
+// RESP ENCODING
+// ============================================================================
+
+/** A decoded RESP reply */
+export type RespValue = string | number | Buffer | null | Error | RespValue[];
+
+const CRLF = Buffer.from('\r\n');
+
+/**
+ * Encode a command as a RESP array of bulk strings
+ */
+export function encodeCommand(args: (string | Uint8Array)[]): Buffer {
+  const parts: Buffer[] = [Buffer.from(`*${args.length}\r\n`)];
+  for (const arg of args) {
+    const bytes = typeof arg === 'string' ? Buffer.from(arg) : Buffer.from(arg);
+    parts.push(Buffer.from(`$${bytes.length}\r\n`), bytes, CRLF);
+  }
+  return Buffer.concat(parts);
+}
+
+/**
+ * Decode one RESP value starting at `offset`. Returns null when the buffer
+ * doesn't hold a complete value yet.
+ */
+export function parseReply(
+  buffer: Buffer,
+  offset = 0
+): { value: RespValue; offset: number } | null {
+  const lineEnd = buffer.indexOf(CRLF, offset);
+  if (lineEnd === -1) return null;
+
+  const type = String.fromCharCode(buffer[offset]);
+  const line = buffer.toString('utf8', offset + 1, lineEnd);
+  const next = lineEnd + 2;
+
+  switch (type) {
+    case '+':
+      return { value: line, offset: next };
+    case '-':
+      return { value: new Error(line), offset: next };
+    case ':':
+      return { value: Number(line), offset: next };
+    case '$': {
+      const length = Number(line);
+      if (length === -1) return { value: null, offset: next };
+      if (buffer.length < next + length + 2) return null;
+      return { value: buffer.subarray(next, next + length), offset: next + length + 2 };
+    }
+    case '*': {
+      const count = Number(line);
+      if (count === -1) return { value: null, offset: next };
+
+      const items: RespValue[] = [];
+      let position = next;
+      for (let i = 0; i < count; i++) {
+        const item = parseReply(buffer, position);
+        if (!item) return null;
+        items.push(item.value);
+        position = item.offset;
+      }
+      return { value: items, offset: position };
+    }
+    default:
+      throw new Error(`Unexpected RESP type "${type}"`);
+  }
+}
+
+// ============================================================================
+// CONNECTION
+// ============================================================================
+
+/**
+ * One self-reconnecting connection to Redis
+ */
+class RedisConnection {
+  private socket: Socket | null = null;
+  private buffer: Buffer = Buffer.alloc(0);
+  private reconnectTimeout: ReturnType<typeof setTimeout> | null = null;
+  private isClosed = false;
+
+  constructor(
+    private readonly name: string,
+    private readonly url: URL,
+    private readonly reconnectDelay: number,
+    private readonly onConnect: () => void,
+    private readonly onReply: (reply: RespValue) => void
+  ) {}
+
+  connect(): void {
+    const socket = createConnection({
+      host: this.url.hostname || '127.0.0.1',
+      port: Number(this.url.port || 6379),
+    });
+    this.socket = socket;
+
+    socket.on('connect', () => {
+      if (this.url.password) {
+        this.send(['AUTH', decodeURIComponent(this.url.password)]);
+      }
+      this.onConnect();
+    });
+
+    socket.on('data', (chunk: Buffer) => {
+      this.buffer = this.buffer.length ? Buffer.concat([this.buffer, chunk]) : chunk;
+      this.drainReplies();
+    });
+
+    socket.on('error', (error) => {
+      console.error(`[RedisAdapter] ${this.name} connection error:`, error.message);
+    });
+
+    socket.on('close', () => {
+      this.socket = null;
+      this.buffer = Buffer.alloc(0);
+      if (this.isClosed) return;
+
+      console.warn(`[RedisAdapter] ${this.name} connection lost, retrying in ${this.reconnectDelay}ms`);
+      this.reconnectTimeout = setTimeout(() => {
+        this.reconnectTimeout = null;
+        this.connect();
+      }, this.reconnectDelay);
+    });
+  }
+
+  /**
+   * Write a command. Returns false when there is no connection to write to.
+   */
+  send(args: (string | Uint8Array)[]): boolean {
+    if (!this.socket || this.socket.destroyed) return false;
+    this.socket.write(encodeCommand(args));
+    return true;
+  }
+
+  close(): void {
+    this.isClosed = true;
+    if (this.reconnectTimeout) {
+      clearTimeout(this.reconnectTimeout);
+      this.reconnectTimeout = null;
+    }
+    this.socket?.destroy();
+    this.socket = null;
+  }
+
+  /**
+   * Hand every complete reply in the buffer to onReply
+   */
+  private drainReplies(): void {
+    let offset = 0;
+    for (;;) {
+      let parsed: ReturnType<typeof parseReply>;
+      try {
+        parsed = offset < this.buffer.length ? parseReply(this.buffer, offset) : null;
+      } catch (error) {
+        console.error(`[RedisAdapter] ${this.name} received malformed data, reconnecting:`, error);
+        this.socket?.destroy();
+        return;
+      }
+      if (!parsed) break;
+      offset = parsed.offset;
+
+      // A failing handler is the app's problem, not the connection's
+      try {
+        this.onReply(parsed.value);
+      } catch (error) {
+        console.error(`[RedisAdapter] ${this.name} reply handler failed:`, error);
+      }
+    }
+    this.buffer = this.buffer.subarray(offset);
+  }
+}
+
+// ============================================================================
+// ADAPTER
+// ============================================================================
+
+/**
+ * PubSubAdapter over a Redis channel. Uses two connections because a
+ * subscribed Redis connection can't publish.
+ */
+export class RedisAdapter implements PubSubAdapter {
+  private publisher: RedisConnection;
+  private subscriber: RedisConnection;
+  private channel: string;
+  private handler: ((envelope: ClusterEnvelope) => void) | null = null;
+  private onSubscribed: (() => void) | null = null;
+  private connectTimeout: number;
+
+  constructor(options: RedisAdapterOptions = {}) {
+    const url = new URL(options.url ?? 'redis://127.0.0.1:6379');
+    const reconnectDelay = options.reconnectDelay ?? 1000;
+    this.channel = options.channel ?? 'ws-template';
+    this.connectTimeout = options.connectTimeout ?? 10000;
+
+    this.publisher = new RedisConnection('publisher', url, reconnectDelay, () => {}, (reply) => {
+      if (reply instanceof Error) {
+        console.error('[RedisAdapter] Publish failed:', reply.message);
+      }
+    });
+    this.subscriber = new RedisConnection(
+      'subscriber',
+      url,
+      reconnectDelay,
+      // (Re)subscribe on every connect so a reconnect restores delivery
+      () => this.subscriber.send(['SUBSCRIBE', this.channel]),
+      (reply) => this.handleSubscriberReply(reply)
+    );
+  }
+
+  /**
+   * Connect and subscribe. Rejects when Redis hasn't confirmed the
+   * subscription within connectTimeout; the connections keep retrying.
+   */
+  subscribe(handler: (envelope: ClusterEnvelope) => void): Promise<void> {
+    this.handler = handler;
+    return new Promise((resolve, reject) => {
+      const timeout = setTimeout(() => {
+        this.onSubscribed = null;
+        reject(new Error(`Redis did not confirm the subscription to ${this.channel} within ${this.connectTimeout}ms`));
+      }, this.connectTimeout);
+      this.onSubscribed = () => {
+        clearTimeout(timeout);
+        resolve();
+      };
+      this.publisher.connect();
+      this.subscriber.connect();
+    });
+  }
+
+  publish(envelope: ClusterEnvelope): void {
+    const payload = msgpackCodec.encode(envelope);
+    if (!this.publisher.send(['PUBLISH', this.channel, payload])) {
+      console.warn('[RedisAdapter] Not connected, dropping cluster message');
+    }
+  }
+
+  close(): void {
+    this.handler = null;
+    this.publisher.close();
+    this.subscriber.close();
+  }
+
+  /**
+   * Route subscription acknowledgements and channel messages
+   */
+  private handleSubscriberReply(reply: RespValue): void {
+    if (reply instanceof Error) {
+      console.error('[RedisAdapter] Subscribe failed:', reply.message);
+      return;
+    }
+    if (!Array.isArray(reply)) return;
+
+    const kind = reply[0]?.toString();
+    if (kind === 'subscribe') {
+      console.log(`[RedisAdapter] Subscribed to ${this.channel}`);
+      this.onSubscribed?.();
+      this.onSubscribed = null;
+    } else if (kind === 'message' && reply[2] instanceof Buffer) {
+      let envelope: ClusterEnvelope;
+      try {
+        envelope = msgpackCodec.decode(reply[2]) as ClusterEnvelope;
+      } catch (error) {
+        console.error('[RedisAdapter] Dropping undecodable cluster message:', error);
+        return;
+      }
+      this.handler?.(envelope);
+    }
+  }
+}
@@ -0,0 +1,144 @@
+/**
+ * Timers and Tick Loop
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Scheduler backs the setTimer / setRepeatingTimer helpers that app logic
+ * uses for turn timers and countdowns; WSServer cancels whatever is left on
+ * shutdown. TickLoop drives AppLogic.handleTick at a fixed rate.
+ */
+
+/** Work to run when a timer fires */
+export type TimerCallback = () => void | Promise<void>;
+
+/**
+ * One-shot and repeating timers that can all be cancelled at once
+ */
+export class Scheduler {
+  private timers: Map<string, ReturnType<typeof setTimeout>> = new Map();
+  private nextId = 1;
+
+  /**
+   * Run `callback` once after `delayMs`. Returns an id for clearTimer().
+   */
+  setTimer(delayMs: number, callback: TimerCallback): string {
+    const timerId = `timer_${this.nextId++}`;
+    this.timers.set(
+      timerId,
+      setTimeout(() => {
+        this.timers.delete(timerId);
+        this.run(timerId, callback);
+      }, delayMs)
+    );
+    return timerId;
+  }
+
+  /**
+   * Run `callback` every `intervalMs` until cleared. An async callback that
+   * outlasts the interval overlaps with the next run. Throws unless
+   * `intervalMs` is positive.
+   */
+  setRepeatingTimer(intervalMs: number, callback: TimerCallback): string {
+    if (!(intervalMs > 0)) throw new Error(`Repeating timer interval must be positive, got ${intervalMs}`);
+    const timerId = `timer_${this.nextId++}`;
+    this.timers.set(
+      timerId,
+      setInterval(() => this.run(timerId, callback), intervalMs)
+    );
+    return timerId;
+  }
+
+  /**
+   * Cancel a timer. Returns false when it already fired or was cleared.
+   */
+  clearTimer(timerId: string): boolean {
+    const handle = this.timers.get(timerId);
+    if (!handle) return false;
+
+    // clearTimeout and clearInterval are interchangeable in Node
+    clearTimeout(handle);
+    this.timers.delete(timerId);
+    return true;
+  }
+
+  /**
+   * Cancel every pending timer
+   */
+  clearAll(): void {
+    this.timers.forEach((handle) => clearTimeout(handle));
+    this.timers.clear();
+  }
+
+  /**
+   * Number of pending timers
+   */
+  get size(): number {
+    return this.timers.size;
+  }
+
+  /**
+   * Run a callback, logging instead of crashing when it fails
+   */
+  private run(timerId: string, callback: TimerCallback): void {
+    try {
+      Promise.resolve(callback()).catch((error) => {
+        console.error(`[Scheduler] Timer ${timerId} failed:`, error);
+      });
+    } catch (error) {
+      console.error(`[Scheduler] Timer ${timerId} failed:`, error);
+    }
+  }
+}
+
+/**
+ * Calls `onTick(dt)` at a fixed rate. Ticks are scheduled against absolute
+ * target times, so timer lateness doesn't accumulate into drift; if the loop
+ * falls more than a whole tick behind (e.g. the event loop was blocked) it
+ * resynchronizes instead of firing a burst of catch-up ticks. `dt` is the
+ * real time since the previous tick in ms.
+ */
+export class TickLoop {
+  private timer: ReturnType<typeof setTimeout> | null = null;
+  private interval: number;
+  private lastTickAt = 0;
+  private nextTickAt = 0;
+
+  constructor(
+    tickRate: number,
+    private readonly onTick: (dt: number) => void
+  ) {
+    this.interval = 1000 / tickRate;
+  }
+
+  start(): void {
+    if (this.timer) return;
+    this.lastTickAt = performance.now();
+    this.nextTickAt = this.lastTickAt + this.interval;
+    this.scheduleNext();
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearTimeout(this.timer);
+      this.timer = null;
+    }
+  }
+
+  private scheduleNext(): void {
+    this.timer = setTimeout(() => this.tick(), Math.max(0, this.nextTickAt - performance.now()));
+  }
+
+  private tick(): void {
+    const now = performance.now();
+    const dt = now - this.lastTickAt;
+    this.lastTickAt = now;
+
+    this.onTick(dt);
+
+    this.nextTickAt += this.interval;
+    if (performance.now() - this.nextTickAt > this.interval) {
+      this.nextTickAt = performance.now() + this.interval;
+    }
+    // onTick may have stopped the loop
+    if (this.timer) this.scheduleNext();
+  }
+}
@@ -0,0 +1,161 @@
+/**
+ * State Persistence
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * WSServer can snapshot the app state to a StateStore periodically and on
+ * shutdown, and restore it on boot. AppLogic's optional serializeState /
+ * deserializeState hooks turn state that JSON can't express (Maps, Sets,
+ * class instances) into plain data and back.
+ */
+
+import { mkdir, readFile, rename, writeFile } from 'fs/promises';
+import { dirname } from 'path';
+
+/**
+ * What gets written to a store
+ */
+export interface StateSnapshot {
+  /** Snapshot format version, for migrations */
+  version: number;
+  /** When the snapshot was taken (ms since epoch) */
+  savedAt: number;
+  /** Output of AppLogic.serializeState (or the raw state) */
+  state: unknown;
+}
+
+/** Current snapshot format version */
+export const SNAPSHOT_VERSION = 1;
+
+/**
+ * Where snapshots are kept. Only the latest snapshot matters.
+ */
+export interface StateStore {
+  /** Read the latest snapshot, or null if none was saved yet */
+  load(): Promise<StateSnapshot | null>;
+
+  /** Replace the stored snapshot */
+  save(snapshot: StateSnapshot): Promise<void>;
+
+  /** Release any resources held by the store */
+  close?(): Promise<void>;
+}
+
+// ============================================================================
+// FILE STORE
+// ============================================================================
+
+/**
+ * Keeps the snapshot as a JSON file. Writes go to a temporary file that is
+ * renamed into place, so a crash mid-write never leaves a torn snapshot.
+ */
+export class FileStateStore implements StateStore {
+  constructor(private readonly path: string) {}
+
+  async load(): Promise<StateSnapshot | null> {
+    try {
+      return JSON.parse(await readFile(this.path, 'utf8')) as StateSnapshot;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT') return null;
+      throw error;
+    }
+  }
+
+  async save(snapshot: StateSnapshot): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true });
+    const tempPath = `${this.path}.tmp`;
+    await writeFile(tempPath, JSON.stringify(snapshot));
+    await rename(tempPath, this.path);
+  }
+}
+
+// ============================================================================
+// SQLITE STORE
+// ============================================================================
+
+/**
+ * The slice of node:sqlite's DatabaseSync this store uses
+ */
+interface SqliteDatabase {
+  exec(sql: string): void;
+  prepare(sql: string): {
+    run(...params: unknown[]): unknown;
+    get(...params: unknown[]): unknown;
+  };
+  close(): void;
+}
+
+// Kept in a variable so TypeScript doesn't need node:sqlite's typings,
+// which older @types/node versions don't ship
+const SQLITE_MODULE = 'node:sqlite';
+
+/**
+ * Keeps the snapshot in an embedded SQLite database using Node's built-in
+ * node:sqlite module: Node 22.13+, or 22.5–22.12 started with
+ * --experimental-sqlite.
+ */
+export class SqliteStateStore implements StateStore {
+  private database: Promise<SqliteDatabase> | null = null;
+
+  constructor(private readonly path: string) {}
+
+  /**
+   * Whether this Node version ships node:sqlite
+   */
+  static async isSupported(): Promise<boolean> {
+    try {
+      await import(SQLITE_MODULE);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async load(): Promise<StateSnapshot | null> {
+    const database = await this.open();
+    const row = database.prepare('SELECT data FROM snapshots WHERE id = 1').get() as
+      | { data: string }
+      | undefined;
+    return row ? (JSON.parse(row.data) as StateSnapshot) : null;
+  }
+
+  async save(snapshot: StateSnapshot): Promise<void> {
+    const database = await this.open();
+    database
+      .prepare(
+        'INSERT INTO snapshots (id, saved_at, data) VALUES (1, ?, ?) ' +
+          'ON CONFLICT (id) DO UPDATE SET saved_at = excluded.saved_at, data = excluded.data'
+      )
+      .run(snapshot.savedAt, JSON.stringify(snapshot));
+  }
+
+  async close(): Promise<void> {
+    if (!this.database) return;
+    (await this.database).close();
+    this.database = null;
+  }
+
+  /**
+   * Open the database on first use and make sure the table exists
+   */
+  private open(): Promise<SqliteDatabase> {
+    this.database ??= (async () => {
+      let sqlite: { DatabaseSync: new (path: string) => SqliteDatabase };
+      try {
+        sqlite = await import(SQLITE_MODULE);
+      } catch {
+        throw new Error(
+          `SqliteStateStore needs node:sqlite (Node 22.13+, or 22.5+ with --experimental-sqlite), running ${process.version}`
+        );
+      }
+
+      await mkdir(dirname(this.path), { recursive: true });
+      const database = new sqlite.DatabaseSync(this.path);
+      database.exec(
+        'CREATE TABLE IF NOT EXISTS snapshots (' +
+          'id INTEGER PRIMARY KEY CHECK (id = 1), saved_at INTEGER NOT NULL, data TEXT NOT NULL)'
+      );
+      return database;
+    })();
+    return this.database;
+  }
+}
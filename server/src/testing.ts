@@ -0,0 +1,480 @@
+/**
+ * AppLogic Test Harness
+ *
+ * 🔧 This file is REUSABLE across different apps.
+ * Runs any AppLogic against an in-memory transport instead of sockets:
+ * connect virtual clients, have them send messages, suspend, resume and
+ * disconnect, then assert on what each client received. Timers and ticks
+ * run on a virtual clock that only moves when the test calls advance().
+ *
+ * Nothing here depends on a test runner, so it works the same from
+ * node:test and vitest:
+ *
+ *   const harness = new TestHarness(chatAppLogic);
+ *   const alice = harness.connect();
+ *   await alice.send({ type: 'sendMessage', payload: { text: 'hi' } });
+ *   expect(alice.lastOfType('chatMessage')?.payload.text).toBe('hi');
+ *
+ * The helpers behave like WSServer's on a single instance: messages are
+ * validated, each client's messages are handled one at a time (and its
+ * suspend, resume and disconnect wait for them), replies carry
+ * the requestId, messages to suspended clients are replayed on resume and
+ * middleware runs in both directions. Date.now() is not faked; use your
+ * runner's fake timers for that.
+ */
+
+import { validateClientMessage } from 'websocket-template-shared';
+import { immediateReply, runInbound } from './inbound.js';
+import type { TimerCallback } from './scheduler.js';
+import type {
+  AppLogic,
+  AuthIdentity,
+  ClientContext,
+  ClientMessage,
+  MessageContext,
+  MessageHelpers,
+  Middleware,
+  ServerFrame,
+  ServerMessage,
+} from './types.js';
+
+/**
+ * How the harness runs the app logic
+ */
+export interface TestHarnessOptions<State> {
+  /** Start from this state instead of createInitialState() */
+  state?: State;
+
+  /** handleTick calls per virtual second (default: 20, 0 disables) */
+  tickRate?: number;
+
+  /** Middleware to run, like WSServer's `middleware` option (default: none) */
+  middleware?: Middleware[];
+}
+
+/**
+ * How a virtual client connects
+ */
+export interface ConnectOptions {
+  /** Client id to use (default: client-1, client-2, ...) */
+  clientId?: string;
+
+  /** Identity handed to app logic, as if the upgrade was authenticated (default: null) */
+  identity?: AuthIdentity | null;
+}
+
+/** Where a virtual client stands */
+export type ConnectionStatus = 'connected' | 'suspended' | 'disconnected';
+
+/** A server message of one type */
+type MessageOfType<Type extends ServerMessage['type']> = Extract<ServerFrame, { type: Type }>;
+
+/**
+ * A pending timer on the virtual clock
+ */
+interface VirtualTimer {
+  at: number;
+  /** Set for repeating timers */
+  interval: number | null;
+  callback: TimerCallback;
+}
+
+/**
+ * A simulated client connected to a TestHarness
+ */
+export class VirtualClient {
+  /** Everything the server sent this client, oldest first */
+  readonly received: ServerFrame[] = [];
+  /** Scratch space shared by middleware, like WSServer's per-client locals */
+  readonly locals: Record<string, unknown> = {};
+  private status: ConnectionStatus = 'connected';
+  private missed: ServerFrame[] = [];
+  private queue: Promise<void> = Promise.resolve();
+  private nextRequestId = 1;
+
+  constructor(
+    private readonly harness: TestHarness<any>,
+    readonly clientId: string,
+    readonly identity: AuthIdentity | null
+  ) {}
+
+  /**
+   * Send a message and wait until app logic has handled it
+   */
+  send(message: ClientMessage, requestId?: string): Promise<void> {
+    return this.sendRaw(requestId ? { ...message, requestId } : message);
+  }
+
+  /**
+   * Send any value as if it arrived off the wire, e.g. to test validation
+   */
+  async sendRaw(frame: unknown): Promise<void> {
+    this.expectStatus('connected');
+    return this.enqueue(() => this.harness.handleMessage(this, frame));
+  }
+
+  /**
+   * Send a message with a requestId and return the replies correlated to it
+   */
+  async request(message: ClientMessage): Promise<ServerFrame[]> {
+    const requestId = `req_${this.nextRequestId++}`;
+    await this.send(message, requestId);
+    return this.received.filter((frame) => frame.requestId === requestId);
+  }
+
+  /**
+   * Drop the connection without leaving; the session is held until resume()
+   * or disconnect(). Resolves once handleSuspend has run, after the
+   * messages already sent.
+   */
+  suspend(): Promise<void> {
+    this.expectStatus('connected');
+    this.status = 'suspended';
+    return this.enqueue(() => this.harness.suspendClient(this));
+  }
+
+  /**
+   * Come back after suspend() and get the messages sent in the meantime.
+   * Resolves once handleResume has run.
+   */
+  resume(): Promise<void> {
+    this.expectStatus('suspended');
+    this.status = 'connected';
+    const missed = this.missed;
+    this.missed = [];
+    missed.forEach((frame) => this.received.push(frame));
+    return this.enqueue(() => this.harness.resumeClient(this));
+  }
+
+  /**
+   * Leave for good. Like WSServer, replies to messages still being handled
+   * are lost, and handleDisconnect runs once those messages are done.
+   */
+  async disconnect(): Promise<void> {
+    if (this.status === 'disconnected') return;
+    this.status = 'disconnected';
+    return this.enqueue(() => this.harness.disconnectClient(this));
+  }
+
+  /**
+   * Whether the client is connected, suspended or gone
+   */
+  get connectionStatus(): ConnectionStatus {
+    return this.status;
+  }
+
+  /**
+   * Every received message of one type
+   */
+  ofType<Type extends ServerMessage['type']>(type: Type): MessageOfType<Type>[] {
+    return this.received.filter((frame): frame is MessageOfType<Type> => frame.type === type);
+  }
+
+  /**
+   * The most recent received message of one type
+   */
+  lastOfType<Type extends ServerMessage['type']>(type: Type): MessageOfType<Type> | undefined {
+    return this.ofType(type).at(-1);
+  }
+
+  /**
+   * The most recent received message
+   */
+  lastMessage(): ServerFrame | undefined {
+    return this.received.at(-1);
+  }
+
+  /**
+   * Forget what was received so far
+   */
+  clear(): void {
+    this.received.length = 0;
+  }
+
+  /**
+   * Hand a message to the client, or hold it while suspended.
+   * Returns false once the client is gone.
+   */
+  deliver(frame: ServerFrame): boolean {
+    if (this.status === 'disconnected') return false;
+    (this.status === 'connected' ? this.received : this.missed).push(frame);
+    return true;
+  }
+
+  /**
+   * Run `task` after everything this client already sent or did. A failure
+   * reaches the caller without holding up later tasks.
+   */
+  private enqueue(task: () => void | Promise<void>): Promise<void> {
+    const run = this.queue.then(task);
+    this.queue = run.catch(() => {});
+    return run;
+  }
+
+  private expectStatus(expected: ConnectionStatus): void {
+    if (this.status !== expected) {
+      throw new Error(`${this.clientId} is ${this.status}, expected ${expected}`);
+    }
+  }
+}
+
+/**
+ * Runs an AppLogic with virtual clients, rooms and a virtual clock
+ */
+export class TestHarness<State = any> {
+  /** The app state, for assertions */
+  state: State;
+  /** The helpers app logic receives */
+  readonly helpers: MessageHelpers;
+  private clients: Map<string, VirtualClient> = new Map();
+  private rooms: Map<string, Set<string>> = new Map();
+  private middleware: Middleware[];
+  private timers: Map<string, VirtualTimer> = new Map();
+  private nextTimerId = 1;
+  private nextClientId = 1;
+  private clock = 0;
+
+  constructor(
+    private readonly appLogic: AppLogic<State>,
+    options: TestHarnessOptions<State> = {}
+  ) {
+    this.state = options.state ?? appLogic.createInitialState();
+    this.middleware = options.middleware ?? [];
+    this.helpers = this.createHelpers();
+
+    const tickRate = options.tickRate ?? 20;
+    const handleTick = appLogic.handleTick;
+    if (handleTick && tickRate > 0) {
+      const interval = 1000 / tickRate;
+      this.schedule('tick', interval, interval, () => handleTick(this.state, interval, this.helpers));
+    }
+  }
+
+  /**
+   * Connect a virtual client and run handleConnect
+   */
+  connect(options: ConnectOptions = {}): VirtualClient {
+    const clientId = options.clientId ?? `client-${this.nextClientId++}`;
+    if (this.clients.has(clientId)) {
+      throw new Error(`${clientId} is already connected`);
+    }
+
+    const client = new VirtualClient(this, clientId, options.identity ?? null);
+    this.clients.set(clientId, client);
+    this.appLogic.handleConnect(this.state, clientId, this.helpers, client.identity);
+    return client;
+  }
+
+  /**
+   * Connect several virtual clients
+   */
+  connectMany(count: number): VirtualClient[] {
+    return Array.from({ length: count }, () => this.connect());
+  }
+
+  /**
+   * Look up a connected (or suspended) client
+   */
+  getClient(clientId: string): VirtualClient | undefined {
+    return this.clients.get(clientId);
+  }
+
+  /**
+   * The clientIds in a room
+   */
+  listRoomMembers(room: string): string[] {
+    return Array.from(this.rooms.get(room) ?? []);
+  }
+
+  /**
+   * Move the virtual clock forward, firing every timer and tick that falls
+   * due on the way (in order) and waiting for what they started
+   */
+  async advance(ms: number): Promise<void> {
+    const until = this.clock + ms;
+    for (;;) {
+      const due = this.nextDueTimer(until);
+      if (!due) break;
+
+      const [timerId, timer] = due;
+      this.clock = timer.at;
+      if (timer.interval !== null) {
+        timer.at += timer.interval;
+      } else {
+        this.timers.delete(timerId);
+      }
+      try {
+        await timer.callback();
+      } catch (error) {
+        console.error(`[TestHarness] Timer ${timerId} failed:`, error);
+      }
+    }
+    this.clock = until;
+  }
+
+  /**
+   * Virtual time elapsed since the harness was created, in ms
+   */
+  get now(): number {
+    return this.clock;
+  }
+
+  /**
+   * Number of pending app timers (ticks excluded)
+   */
+  get pendingTimers(): number {
+    return Array.from(this.timers.keys()).filter((timerId) => timerId.startsWith('timer_')).length;
+  }
+
+  /**
+   * Shut down like WSServer.close(): run handleShutdown, then disconnect
+   * everyone and cancel every timer
+   */
+  async shutdown(): Promise<void> {
+    this.timers.forEach((_timer, timerId) => {
+      if (timerId.startsWith('tick_')) this.timers.delete(timerId);
+    });
+    await this.appLogic.handleShutdown?.(this.state, this.helpers);
+    for (const client of Array.from(this.clients.values())) await client.disconnect();
+    this.timers.clear();
+  }
+
+  /**
+   * Validate a client's message and run it through middleware to
+   * handleMessage, answering failures like WSServer does. Called by
+   * VirtualClient, like the three lifecycle methods below.
+   */
+  async handleMessage(client: VirtualClient, raw: unknown): Promise<void> {
+    const result = validateClientMessage(raw);
+    const { requestId } = result;
+    const immediate = immediateReply(result);
+    if (immediate) this.sendTo(client.clientId, immediate);
+    if (immediate || !result.ok) return;
+
+    const context: MessageContext = {
+      clientId: client.clientId,
+      message: result.message,
+      helpers: this.helpers,
+      identity: client.identity,
+      locals: client.locals,
+      requestId,
+      reply: (reply: ServerMessage) => this.sendTo(client.clientId, { ...reply, requestId }),
+      replyError: (message: string, code?: string) =>
+        this.sendTo(client.clientId, { type: 'error', payload: { message, code }, requestId }),
+    };
+
+    try {
+      await runInbound(this.middleware, context, () =>
+        this.appLogic.handleMessage(this.state, context)
+      );
+    } catch (error) {
+      console.error(`[TestHarness] Handler failed for message from ${client.clientId}:`, error);
+      context.replyError('Internal server error', 'INTERNAL_ERROR');
+    }
+  }
+
+  /**
+   * Run handleSuspend for a client that dropped
+   */
+  suspendClient(client: VirtualClient): void {
+    this.appLogic.handleSuspend?.(this.state, client.clientId, this.helpers, client.identity);
+  }
+
+  /**
+   * Run handleResume for a client that came back
+   */
+  resumeClient(client: VirtualClient): void {
+    this.appLogic.handleResume?.(this.state, client.clientId, this.helpers, client.identity);
+  }
+
+  /**
+   * Run handleDisconnect, then release the client's rooms
+   */
+  disconnectClient(client: VirtualClient): void {
+    this.appLogic.handleDisconnect(this.state, client.clientId, this.helpers, client.identity);
+    this.clients.delete(client.clientId);
+    this.rooms.forEach((members, room) => {
+      members.delete(client.clientId);
+      if (members.size === 0) this.rooms.delete(room);
+    });
+  }
+
+  private createHelpers(): MessageHelpers {
+    return {
+      broadcastAll: (message) => this.clients.forEach((_client, clientId) => this.sendTo(clientId, message)),
+      sendTo: (clientId, message) => this.sendTo(clientId, message),
+      broadcastExcept: (excludeClientId, message) =>
+        this.clients.forEach((_client, clientId) => {
+          if (clientId !== excludeClientId) this.sendTo(clientId, message);
+        }),
+      joinRoom: (clientId, room) => {
+        if (!this.clients.has(clientId)) return;
+        let members = this.rooms.get(room);
+        if (!members) {
+          members = new Set();
+          this.rooms.set(room, members);
+        }
+        members.add(clientId);
+      },
+      leaveRoom: (clientId, room) => {
+        const members = this.rooms.get(room);
+        members?.delete(clientId);
+        if (members?.size === 0) this.rooms.delete(room);
+      },
+      broadcastToRoom: (room, message, excludeClientId) =>
+        this.listRoomMembers(room).forEach((clientId) => {
+          if (clientId !== excludeClientId) this.sendTo(clientId, message);
+        }),
+      listRoomMembers: (room) => this.listRoomMembers(room),
+      setTimer: (delayMs, callback) => this.schedule('timer', delayMs, null, callback),
+      setRepeatingTimer: (intervalMs, callback) => {
+        // Like Scheduler; advance() would fire a zero interval forever
+        if (!(intervalMs > 0)) throw new Error(`Repeating timer interval must be positive, got ${intervalMs}`);
+        return this.schedule('timer', intervalMs, intervalMs, callback);
+      },
+      clearTimer: (timerId) => timerId.startsWith('timer_') && this.timers.delete(timerId),
+    };
+  }
+
+  /**
+   * Pass a message through outbound middleware and hand it to one client
+   */
+  private sendTo(clientId: string, message: ServerFrame): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    const context: ClientContext = { clientId, identity: client.identity, locals: client.locals };
+    let outgoing: ServerFrame | null = message;
+    for (const middleware of this.middleware) {
+      if (!outgoing) return;
+      if (middleware.outbound) outgoing = middleware.outbound(outgoing, context);
+    }
+    if (outgoing) client.deliver(outgoing);
+  }
+
+  /**
+   * Add a timer to the virtual clock. The handleTick loop is a 'tick' timer,
+   * so app logic can't clear it and it never counts as an app timer.
+   */
+  private schedule(
+    kind: 'tick' | 'timer',
+    delayMs: number,
+    interval: number | null,
+    callback: TimerCallback
+  ): string {
+    const timerId = `${kind}_${this.nextTimerId++}`;
+    this.timers.set(timerId, { at: this.clock + delayMs, interval, callback });
+    return timerId;
+  }
+
+  /**
+   * The earliest timer due by `until`, ties going to the one set first
+   */
+  private nextDueTimer(until: number): [string, VirtualTimer] | null {
+    let next: [string, VirtualTimer] | null = null;
+    this.timers.forEach((timer, timerId) => {
+      if (timer.at <= until && (!next || timer.at < next[1].at)) next = [timerId, timer];
+    });
+    return next;
+  }
+}
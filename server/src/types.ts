@@ -1,63 +1,97 @@
 /**
- * Shared TypeScript types for WebSocket messages
+ * Server-side TypeScript types
  *
- * These types define the contract between client and server.
- * Keep these in sync with client/src/types.ts
+ * The message protocol itself lives in the shared workspace package
+ * (shared/src/protocol.ts) and is re-exported here for convenience.
+ * This file adds the server-only app logic interface.
  */
 
 // ============================================================================
-// CLIENT → SERVER MESSAGES
+// PROTOCOL (shared with the client)
 // ============================================================================
 
-export type ClientMessage =
-  | { type: 'setUsername'; payload: { username: string } }
-  | { type: 'sendMessage'; payload: { text: string } };
+import type { ClientMessage, ServerFrame, ServerMessage } from 'websocket-template-shared';
+import type { TimerCallback } from './scheduler.js';
 
-// ============================================================================
-// SERVER → CLIENT MESSAGES
-// ============================================================================
-
-export type ServerMessage =
-  | { type: 'welcome'; payload: { clientId: string } }
-  | { type: 'userJoined'; payload: { username: string } }
-  | { type: 'userLeft'; payload: { username: string } }
-  | { type: 'chatMessage'; payload: ChatMessage }
-  | { type: 'systemMessage'; payload: { text: string } }
-  | { type: 'error'; payload: { message: string } };
+export type {
+  ClientMessage,
+  ServerMessage,
+  ClientFrame,
+  ServerFrame,
+  ChatMessage,
+  User,
+  UserPresence,
+  PresenceStatus,
+} from 'websocket-template-shared';
 
 // ============================================================================
-// DATA STRUCTURES
+// AUTHENTICATION
 // ============================================================================
 
-export interface ChatMessage {
-  username: string;
-  text: string;
-  timestamp: number;
-  clientId: string;
-}
+/**
+ * Who a connection belongs to, as verified during the WebSocket upgrade
+ */
+export interface AuthIdentity {
+  /** Stable user id (for signed tokens, the `sub` claim) */
+  userId: string;
 
-export interface User {
-  clientId: string;
-  username: string;
-  connectedAt: number;
+  /** Everything the authenticator verified about the user */
+  claims: Record<string, unknown>;
 }
 
 // ============================================================================
 // APP LOGIC INTERFACE
 // ============================================================================
 
+/**
+ * How a helper should deliver a message
+ */
+export interface SendOptions {
+  /**
+   * The message may be skipped for clients that can't keep up (e.g. cursor
+   * positions or typing notices). Defaults to false: must be delivered.
+   */
+  droppable?: boolean;
+}
+
 /**
  * Helper functions provided to app logic for sending messages
  */
 export interface MessageHelpers {
   /** Send a message to all connected clients */
-  broadcastAll: (message: ServerMessage) => void;
+  broadcastAll: (message: ServerMessage, options?: SendOptions) => void;
 
   /** Send a message to a specific client */
-  sendTo: (clientId: string, message: ServerMessage) => void;
+  sendTo: (clientId: string, message: ServerMessage, options?: SendOptions) => void;
 
   /** Broadcast to all clients except one */
-  broadcastExcept: (excludeClientId: string, message: ServerMessage) => void;
+  broadcastExcept: (excludeClientId: string, message: ServerMessage, options?: SendOptions) => void;
+
+  /** Add a client to a room (rooms are created on first join) */
+  joinRoom: (clientId: string, room: string) => void;
+
+  /** Remove a client from a room (empty rooms are discarded) */
+  leaveRoom: (clientId: string, room: string) => void;
+
+  /** Send a message to every member of a room, optionally skipping one client */
+  broadcastToRoom: (
+    room: string,
+    message: ServerMessage,
+    excludeClientId?: string,
+    options?: SendOptions
+  ) => void;
+
+  /** List the clientIds currently in a room */
+  listRoomMembers: (room: string) => string[];
+
+  /** Run a callback once after a delay in ms; returns an id for clearTimer */
+  setTimer: (delayMs: number, callback: TimerCallback) => string;
+
+  /** Run a callback every `intervalMs` (> 0) until cleared; returns an id for clearTimer */
+  setRepeatingTimer: (intervalMs: number, callback: TimerCallback) => string;
+
+  /** Cancel a timer (all timers are cancelled when the server closes) */
+  clearTimer: (timerId: string) => boolean;
 }
 
 /**
@@ -67,6 +101,59 @@ export interface MessageContext {
   clientId: string;
   message: ClientMessage;
   helpers: MessageHelpers;
+
+  /** Verified identity of the sender (null when authentication is off) */
+  identity: AuthIdentity | null;
+
+  /** The sender's per-session scratch space, shared with middleware */
+  locals: Record<string, unknown>;
+
+  /** Correlation id when the client used request(); undefined for plain sends */
+  requestId?: string;
+
+  /** Reply to the sender, correlated with its request if it made one */
+  reply: (message: ServerMessage) => void;
+
+  /** Reply with an error; a correlated request() rejects with it */
+  replyError: (message: string, code?: string) => void;
+}
+
+// ============================================================================
+// MIDDLEWARE
+// ============================================================================
+
+/**
+ * What outbound middleware knows about the recipient
+ */
+export interface ClientContext {
+  clientId: string;
+  identity: AuthIdentity | null;
+
+  /** Per-session scratch space; lives until the client is gone for good */
+  locals: Record<string, unknown>;
+}
+
+/**
+ * Cross-cutting message handling, registered with WSServer.use()
+ */
+export interface Middleware {
+  /** Shown in logs when the middleware fails */
+  name?: string;
+
+  /**
+   * Runs on every validated client message before app logic, in the order
+   * middleware was added. Call `next()` to continue; replace
+   * `context.message` to transform it, or return without calling `next()`
+   * to stop it (replyError() first to reject it). A throw is answered with
+   * an INTERNAL_ERROR like a failing handler.
+   */
+  inbound?: (context: MessageContext, next: () => Promise<void>) => void | Promise<void>;
+
+  /**
+   * Runs on every message about to be written to a client. Return the
+   * message (or a replacement) to send it, or null to skip this recipient.
+   */
+  outbound?: (message: ServerFrame, context: ClientContext) => ServerFrame | null;
 }
 
 /**
@@ -79,11 +166,67 @@ export interface AppLogic<State = any> {
   createInitialState: () => State;
 
   /** Called when a client connects */
-  handleConnect: (state: State, clientId: string, helpers: MessageHelpers) => void;
-
-  /** Called when a client disconnects */
-  handleDisconnect: (state: State, clientId: string, helpers: MessageHelpers) => void;
-
-  /** Called when a client sends a message */
-  handleMessage: (state: State, context: MessageContext) => void;
+  handleConnect: (
+    state: State,
+    clientId: string,
+    helpers: MessageHelpers,
+    identity: AuthIdentity | null
+  ) => void;
+
+  /** Called when a client is gone for good (it left, or never resumed its session) */
+  handleDisconnect: (
+    state: State,
+    clientId: string,
+    helpers: MessageHelpers,
+    identity: AuthIdentity | null
+  ) => void;
+
+  /** Called when a client's connection drops but its session is held for resumption */
+  handleSuspend?: (
+    state: State,
+    clientId: string,
+    helpers: MessageHelpers,
+    identity: AuthIdentity | null
+  ) => void;
+
+  /** Called when a suspended client reconnects within the grace period */
+  handleResume?: (
+    state: State,
+    clientId: string,
+    helpers: MessageHelpers,
+    identity: AuthIdentity | null
+  ) => void;
+
+  /**
+   * Called at a fixed rate (WSServer's `tickRate`) to advance a simulation.
+   * `dt` is the real time since the previous tick in ms.
+   */
+  handleTick?: (state: State, dt: number, helpers: MessageHelpers) => void;
+
+  /**
+   * Called once when the server shuts down, after clients had their drain
+   * period and before the rest are disconnected and the final snapshot is
+   * taken. Flush state that lives outside the snapshot here (e.g. save
+   * running games); clients can still be messaged. May return a Promise.
+   */
+  handleShutdown?: (state: State, helpers: MessageHelpers) => void | Promise<void>;
+
+  /**
+   * Called when a client sends a message. May return a Promise: a client's
+   * next message waits until it settles, while other clients carry on.
+   * A throw or rejection is logged and answered with an INTERNAL_ERROR.
+   */
+  handleMessage: (state: State, context: MessageContext) => void | Promise<void>;
+
+  /**
+   * Turn state into JSON-safe data for a snapshot (default: the state as-is,
+   * which loses Maps and Sets)
+   */
+  serializeState?: (state: State) => unknown;
+
+  /** Rebuild state from data produced by serializeState */
+  deserializeState?: (data: unknown) => State;
+
+  /** Extra details about a client for operators, e.g. its username (admin API) */
+  describeClient?: (state: State, clientId: string) => Record<string, unknown>;
 }
@@ -10,15 +10,268 @@
  */
 
 import { WebSocket, WebSocketServer } from 'ws';
-import type { Server as HTTPServer } from 'http';
+import { STATUS_CODES, type IncomingMessage, type Server as HTTPServer } from 'http';
+import type { Duplex } from 'stream';
+import { randomBytes } from 'crypto';
+import {
+  PROTOCOL_VERSION,
+  codecs as defaultCodecs,
+  findCodec,
+  jsonCodec,
+  validateClientMessage,
+  type Codec,
+} from 'websocket-template-shared';
+import { TOKEN_PROTOCOL_PREFIX, type Authenticator } from './auth.js';
+import {
+  ClientRateLimiter,
+  validateRateLimitOptions,
+  type RateLimitOptions,
+} from './rateLimiter.js';
+import {
+  InMemoryAdapter,
+  type ClusterDelivery,
+  type ClusterEnvelope,
+  type PubSubAdapter,
+} from './clusterAdapter.js';
+import { SNAPSHOT_VERSION, type StateStore } from './stateStore.js';
+import { createLoggingMiddleware } from './middleware.js';
+import { immediateReply, runInbound } from './inbound.js';
+import { createServerMetrics, labelServerMetrics, type ServerMetrics } from './metrics.js';
+import { Scheduler, TickLoop, type TimerCallback } from './scheduler.js';
 import type {
-  ClientMessage,
   ServerMessage,
+  ServerFrame,
+  AuthIdentity,
   AppLogic,
+  ClientContext,
   MessageHelpers,
   MessageContext,
+  Middleware,
+  SendOptions,
 } from './types.js';
 
+/**
+ * What to do with droppable messages for a client whose send buffer is
+ * above the high-water mark:
+ * - 'drop': skip them
+ * - 'coalesce': keep only the latest of each message type and send it once the buffer drains
+ * - 'disconnect': close the connection with SLOW_CONSUMER
+ */
+export const BACKPRESSURE_POLICIES = ['drop', 'coalesce', 'disconnect'] as const;
+export type BackpressurePolicy = (typeof BACKPRESSURE_POLICIES)[number];
+
+/**
+ * Limits on how much unsent data a slow client may pile up
+ */
+export interface BackpressureOptions {
+  /** Buffered bytes above which a client counts as slow (default: 1 MiB) */
+  highWaterMark?: number;
+
+  /** How slow clients are treated (default: 'drop') */
+  policy?: BackpressurePolicy;
+
+  /** Buffered bytes a must-deliver message may grow a client to before it is disconnected (default: 16 MiB) */
+  maxBufferedAmount?: number;
+}
+
+/**
+ * Tunables for the WebSocket server
+ */
+export interface WSServerOptions {
+  /** How often to ping each client in ms (default: 30000, 0 disables heartbeats) */
+  heartbeatInterval?: number;
+
+  /** How long to wait for a pong before dropping the client in ms (default: 10000) */
+  heartbeatTimeout?: number;
+
+  /** How long a dropped session is held for resumption in ms (default: 30000, 0 disables) */
+  resumeGracePeriod?: number;
+
+  /** Maximum messages buffered for a suspended session (default: 100) */
+  maxMissedMessages?: number;
+
+  /** Verify who is connecting during the upgrade (default: everyone is let in anonymously) */
+  authenticate?: Authenticator;
+
+  /** Token-bucket limits on inbound messages per connection (default: unlimited) */
+  rateLimit?: RateLimitOptions;
+
+  /** How to treat clients that can't keep up with outbound messages */
+  backpressure?: BackpressureOptions;
+
+  /** Wire codecs clients may negotiate via subprotocol (default: msgpack and JSON; JSON is the fallback) */
+  codecs?: Codec[];
+
+  /** Pub/sub transport to the other server instances (default: this process only) */
+  adapter?: PubSubAdapter;
+
+  /** Snapshot app state to a store and restore it on boot (default: state lives in memory only) */
+  persistence?: PersistenceOptions;
+
+  /** Initial middleware; add more with use() (default: message logging) */
+  middleware?: Middleware[];
+
+  /** How often AppLogic.handleTick runs, in ticks per second (default: 20, 0 disables) */
+  tickRate?: number;
+
+  /**
+   * Only accept upgrades for this URL path, e.g. '/ws/chat', so several
+   * WSServers can share one HTTP server (default: every path no other
+   * WSServer claimed)
+   */
+  path?: string;
+
+  /**
+   * Metrics to record into, e.g. one set shared by every endpoint; series
+   * get an `endpoint` label when `path` is set (default: a registry of its own)
+   */
+  metrics?: ServerMetrics;
+
+  /** How close() lets connected clients go */
+  drain?: DrainOptions;
+
+  /** Who may open a connection, and how many */
+  admission?: AdmissionOptions;
+}
+
+/**
+ * Checks an upgrade has to pass before a socket opens. Refused upgrades get
+ * an HTTP error (403 bad origin, 503 server full, 429 too many from one
+ * address, 408 handshake too slow) and are counted in
+ * ws_rejected_upgrades_total.
+ */
+export interface AdmissionOptions {
+  /**
+   * Browser origins allowed to connect besides the server's own, e.g.
+   * ['https://app.example.com'], or ['*'] for any. Upgrades without an
+   * Origin header (non-browser clients) are always let in. (default: any)
+   */
+  allowedOrigins?: string[];
+
+  /** Open connections this server accepts, counting handshakes in progress (default: unlimited) */
+  maxConnections?: number;
+
+  /** Open connections per remote address (default: unlimited) */
+  maxConnectionsPerAddress?: number;
+
+  /** Largest message a client may send in bytes; bigger ones close the connection with 1009 (default: 1 MiB) */
+  maxPayload?: number;
+
+  /** How long an upgrade may take, authentication included, in ms (default: 10000) */
+  handshakeTimeout?: number;
+}
+
+/**
+ * How clients are let go on shutdown. close() sends every client a
+ * serverShuttingDown notice, waits up to `timeout` for them to leave and
+ * then closes the rest with GOING_AWAY.
+ */
+export interface DrainOptions {
+  /** How long clients may stay after the notice in ms (default: 0, close right away) */
+  timeout?: number;
+
+  /** How long clients should wait before reconnecting in ms (default: 1000) */
+  reconnectAfter?: number;
+
+  /** Random extra wait clients spread their reconnects over in ms (default: 5000) */
+  reconnectJitter?: number;
+}
+
+/**
+ * Where and how often to snapshot app state
+ */
+export interface PersistenceOptions {
+  store: StateStore;
+
+  /** How often to snapshot in ms (default: 60000, 0 snapshots only on close) */
+  snapshotInterval?: number;
+}
+
+/**
+ * Per-connection bookkeeping
+ */
+interface ClientConnection {
+  ws: WebSocket;
+  /** Pending heartbeat deadline, cleared when the client answers */
+  heartbeatTimeout: ReturnType<typeof setTimeout> | null;
+  /** Token the client presents to resume this session after a drop */
+  resumeToken: string;
+  /** Inbound message budget, null when rate limiting is off */
+  rateLimiter: ClientRateLimiter | null;
+  /** Wire format negotiated during the handshake */
+  codec: Codec;
+  /** Latest droppable message per type, held back while the client is slow */
+  coalesced: Map<string, string | Uint8Array>;
+  /** When this socket connected (ms since epoch) */
+  connectedAt: number;
+  /** Peer address of the socket */
+  remoteAddress: string | null;
+  /** Messages received on this socket */
+  messagesReceived: number;
+}
+
+/**
+ * A connected client as seen by operators (e.g. the admin API)
+ */
+export interface ClientInfo {
+  clientId: string;
+  /** Path of the WSServer the client is connected to, null for a pathless one */
+  endpoint: string | null;
+  /** When the current socket connected (ms since epoch) */
+  connectedAt: number;
+  remoteAddress: string | null;
+  /** Authenticated user id, null when authentication is off */
+  userId: string | null;
+  /** Messages the client has sent on its current socket */
+  messagesReceived: number;
+  rooms: string[];
+  /** Whatever AppLogic.describeClient reports, e.g. the username */
+  details: Record<string, unknown>;
+}
+
+/**
+ * A session whose connection dropped but which may still be resumed
+ */
+interface SuspendedSession {
+  resumeToken: string;
+  /** Ends the session for good once the grace period runs out */
+  expiryTimeout: ReturnType<typeof setTimeout>;
+  /** Messages addressed to the client while it was away */
+  missedMessages: ServerFrame[];
+}
+
+/**
+ * Close code `ws` reports when a connection ended without a close frame.
+ * Only these drops are treated as temporary; a close frame means the peer left.
+ */
+const ABNORMAL_CLOSURE = 1006;
+
+/**
+ * Close code for clients let go because the server is shutting down
+ */
+export const GOING_AWAY = 1001;
+
+/**
+ * How long close() waits for clients to finish the closing handshake before
+ * cutting them off
+ */
+const CLOSE_TIMEOUT_MS = 5000;
+
+/**
+ * Close code for clients that keep flooding past their rate limit
+ */
+export const POLICY_VIOLATION = 1008;
+
+/**
+ * Close code for clients whose send buffer grew past what the server allows
+ */
+export const SLOW_CONSUMER = 4001;
+
+/**
+ * Close code for clients an operator disconnected
+ */
+export const ADMIN_DISCONNECT = 4002;
+
 /**
  * Generate a unique client ID
  */
@@ -26,6 +279,117 @@ function generateClientId(): string {
   return `client_${Date.now()}_${Math.random().toString(36).substring(2, 11)}`;
 }
 
+/**
+ * Generate an id for this server instance within the cluster
+ */
+function generateNodeId(): string {
+  return `node_${randomBytes(6).toString('hex')}`;
+}
+
+/**
+ * Generate an unguessable session resume token
+ */
+function generateResumeToken(): string {
+  return randomBytes(24).toString('base64url');
+}
+
+/**
+ * Refuse an upgrade with a plain HTTP response before any WebSocket exists
+ */
+function rejectUpgrade(socket: Duplex, status: number): void {
+  const reason = STATUS_CODES[status] ?? 'Error';
+  socket.end(
+    `HTTP/1.1 ${status} ${reason}\r\n` +
+      'Connection: close\r\n' +
+      'Content-Type: text/plain\r\n' +
+      `Content-Length: ${Buffer.byteLength(reason)}\r\n` +
+      `\r\n${reason}`
+  );
+  socket.destroy();
+}
+
+/**
+ * Whether an upgrade's Origin is one we accept. Same-origin pages (the
+ * client served by this server) always are.
+ */
+function isOriginAllowed(request: IncomingMessage, allowedOrigins: Set<string> | null): boolean {
+  const origin = request.headers.origin;
+  if (!origin || !allowedOrigins || allowedOrigins.has('*')) return true;
+
+  try {
+    const { host, origin: normalized } = new URL(origin);
+    return host === request.headers.host || allowedOrigins.has(normalized);
+  } catch {
+    // 'null' and other opaque origins
+    return false;
+  }
+}
+
+/**
+ * Pick the subprotocol to answer with: the first offered codec we support,
+ * otherwise any non-token protocol. Browsers fail the handshake if they
+ * offered subprotocols and none is selected, so a token-only offer is echoed.
+ * A codec we haven't enabled is never echoed, or the client would encode
+ * with it; with nothing else to pick, the answer is no subprotocol (JSON).
+ */
+function selectProtocol(protocols: Set<string>, codecs: Codec[]): string | false {
+  const offered = Array.from(protocols).filter(
+    (protocol) => findCodec(protocol, codecs) || !findCodec(protocol)
+  );
+  return (
+    offered.find((protocol) => findCodec(protocol, codecs)) ??
+    offered.find((protocol) => !protocol.startsWith(TOKEN_PROTOCOL_PREFIX)) ??
+    offered[0] ??
+    false
+  );
+}
+
+/**
+ * Serialize a message lazily, at most once per codec no matter how many
+ * clients it goes to
+ */
+function createFrameEncoder(message: ServerFrame): (codec: Codec) => string | Uint8Array {
+  const encoded = new Map<Codec, string | Uint8Array>();
+  return (codec) => {
+    let data = encoded.get(codec);
+    if (data === undefined) {
+      data = codec.encode(message);
+      encoded.set(codec, data);
+    }
+    return data;
+  };
+}
+
+/** Registry key for a WSServer without a path */
+const ANY_PATH = '*';
+
+/**
+ * Normalize an endpoint path so '/ws/chat/' and '/ws/chat' match
+ */
+function normalizePath(path: string): string {
+  const trimmed = path.replace(/\/+$/, '');
+  return trimmed.startsWith('/') ? trimmed : `/${trimmed}`;
+}
+
+/**
+ * Parse an upgrade's request target, or null when it isn't a usable URL
+ * (e.g. `//` or `//[::1`, which `new URL` throws on)
+ */
+function parseRequestUrl(request: IncomingMessage): URL | null {
+  try {
+    return new URL(request.url ?? '/', 'http://localhost');
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Read the resume token a reconnecting client put in the upgrade URL
+ */
+function getResumeToken(url: URL): string | null {
+  return url.searchParams.get('resumeToken');
+}
+
 /**
  * WebSocket Server Manager
  *
@@ -33,71 +397,656 @@ function generateClientId(): string {
  */
 export class WSServer<State = any> {
   private wss: WebSocketServer;
-  private clients: Map<string, WebSocket> = new Map();
+  private clients: Map<string, ClientConnection> = new Map();
+  private rooms: Map<string, Set<string>> = new Map();
+  private clientRooms: Map<string, Set<string>> = new Map();
+  private suspendedSessions: Map<string, SuspendedSession> = new Map();
+  private resumeTokens: Map<string, string> = new Map();
+  private identities: Map<string, AuthIdentity | null> = new Map();
   private appLogic: AppLogic<State>;
   private state: State;
+  private heartbeatInterval: number;
+  private heartbeatTimeout: number;
+  private heartbeatTimer: ReturnType<typeof setInterval> | null = null;
+  private resumeGracePeriod: number;
+  private maxMissedMessages: number;
+  private isClosing = false;
+  private httpServer: HTTPServer;
+  private authenticate: Authenticator | null;
+  private rateLimit: RateLimitOptions | null;
+  private rateLimitDisconnects = 0;
+  private highWaterMark: number;
+  private backpressurePolicy: BackpressurePolicy;
+  private maxBufferedAmount: number;
+  private slowConsumerDisconnects = 0;
+  private codecs: Codec[];
+  private adapter: PubSubAdapter;
+  private adapterReady: Promise<void>;
+  private stateStore: StateStore | null;
+  private stateRestored: Promise<void>;
+  private snapshotTimer: ReturnType<typeof setInterval> | null = null;
+  private pendingSnapshot: Promise<void> = Promise.resolve();
+  private messageQueues: Map<string, Promise<void>> = new Map();
+  private middleware: Middleware[];
+  private locals: Map<string, Record<string, unknown>> = new Map();
+  private metrics: ServerMetrics;
+  private scheduler = new Scheduler();
+  private tickLoop: TickLoop | null = null;
+  private nodeId = generateNodeId();
+  private stopCollectingMetrics: () => void;
+  private drainOptions: Required<DrainOptions>;
+  private allowedOrigins: Set<string> | null;
+  private maxConnections: number;
+  private maxConnectionsPerAddress: number;
+  private handshakeTimeout: number;
+  /** Admitted sockets (open or still handshaking) per remote address */
+  private admitted: Map<string, number> = new Map();
+  private admittedTotal = 0;
+  /** Ends the drain early once the last client has left */
+  private onClientsGone: (() => void) | null = null;
+
+  /** The WSServers mounted on each HTTP server, by path */
+  private static endpoints = new WeakMap<
+    HTTPServer,
+    { byPath: Map<string, WSServer>; listener: (request: IncomingMessage, socket: Duplex, head: Buffer) => void }
+  >();
 
-  constructor(httpServer: HTTPServer, appLogic: AppLogic<State>) {
-    this.wss = new WebSocketServer({ server: httpServer });
+  /** URL path this server accepts upgrades on, null for any unclaimed path */
+  readonly path: string | null;
+
+  constructor(httpServer: HTTPServer, appLogic: AppLogic<State>, options: WSServerOptions = {}) {
+    this.httpServer = httpServer;
+    // Claim the path first so a conflict throws before anything is started
+    this.path = options.path ? normalizePath(options.path) : null;
+    this.mount();
+
+    this.codecs = options.codecs ?? defaultCodecs;
+    const admission = options.admission ?? {};
+    this.allowedOrigins = admission.allowedOrigins
+      ? new Set(admission.allowedOrigins.map((origin) => (origin === '*' ? origin : new URL(origin).origin)))
+      : null;
+    this.maxConnections = admission.maxConnections ?? Infinity;
+    this.maxConnectionsPerAddress = admission.maxConnectionsPerAddress ?? Infinity;
+    this.handshakeTimeout = admission.handshakeTimeout ?? 10000;
+    this.wss = new WebSocketServer({
+      noServer: true,
+      maxPayload: admission.maxPayload ?? 1024 * 1024,
+      handleProtocols: (protocols) => selectProtocol(protocols, this.codecs),
+    });
     this.appLogic = appLogic;
     this.state = appLogic.createInitialState();
+    this.heartbeatInterval = options.heartbeatInterval ?? 30000;
+    this.heartbeatTimeout = options.heartbeatTimeout ?? 10000;
+    this.resumeGracePeriod = options.resumeGracePeriod ?? 30000;
+    this.maxMissedMessages = options.maxMissedMessages ?? 100;
+    this.authenticate = options.authenticate ?? null;
+    this.rateLimit = options.rateLimit ?? null;
+    // Fail at startup rather than on the first connection
+    if (this.rateLimit) validateRateLimitOptions(this.rateLimit);
+    this.highWaterMark = options.backpressure?.highWaterMark ?? 1024 * 1024;
+    this.backpressurePolicy = options.backpressure?.policy ?? 'drop';
+    this.maxBufferedAmount = options.backpressure?.maxBufferedAmount ?? 16 * 1024 * 1024;
+    this.adapter = options.adapter ?? new InMemoryAdapter();
+    this.adapterReady = Promise.resolve(
+      this.adapter.subscribe((envelope) => this.handleClusterEnvelope(envelope))
+    );
+    this.stateStore = options.persistence?.store ?? null;
+    this.stateRestored = this.restoreState();
+    this.startSnapshots(options.persistence?.snapshotInterval ?? 60000);
+    this.middleware = [...(options.middleware ?? [createLoggingMiddleware()])];
+    this.drainOptions = {
+      timeout: options.drain?.timeout ?? 0,
+      reconnectAfter: options.drain?.reconnectAfter ?? 1000,
+      reconnectJitter: options.drain?.reconnectJitter ?? 5000,
+    };
+
+    const metrics = options.metrics ?? createServerMetrics();
+    this.metrics = this.path ? labelServerMetrics(metrics, { endpoint: this.path }) : metrics;
+    this.stopCollectingMetrics = this.metrics.registry.onCollect(() => {
+      this.metrics.connections.set(this.clients.size);
+      this.metrics.suspendedSessions.set(this.suspendedSessions.size);
+    });
 
     this.setupWebSocketServer();
+    this.startHeartbeat();
+    this.startTicks(options.tickRate ?? 20);
   }
 
   /**
    * Setup WebSocket server event handlers
    */
   private setupWebSocketServer(): void {
-    this.wss.on('connection', (ws: WebSocket) => {
-      const clientId = generateClientId();
-      this.clients.set(clientId, ws);
+    this.wss.on(
+      'connection',
+      (ws: WebSocket, request: IncomingMessage, identity: AuthIdentity | null, url: URL) => {
+        const resumeToken = getResumeToken(url);
+        const resumedClientId = resumeToken ? this.resumeTokens.get(resumeToken) : undefined;
+
+        // A session can only be resumed by the user who owns it
+        const owner = resumedClientId ? this.identities.get(resumedClientId) : null;
+        if (resumedClientId && owner?.userId === identity?.userId) {
+          this.metrics.resumesTotal.inc({ outcome: 'resumed' });
+          this.resumeSession(ws, request, resumedClientId);
+        } else {
+          if (resumeToken) this.metrics.resumesTotal.inc({ outcome: 'rejected' });
+          this.startSession(ws, request, identity);
+        }
+      }
+    );
 
-      console.log(`[WSServer] Client connected: ${clientId} (total: ${this.clients.size})`);
+    this.wss.on('error', (error) => {
+      console.error('[WSServer] WebSocket server error:', error);
+    });
+  }
+
+  /**
+   * Register this server for its path on the HTTP server. The first WSServer
+   * on an HTTP server installs the one upgrade listener that routes by path.
+   */
+  private mount(): void {
+    let mounted = WSServer.endpoints.get(this.httpServer);
+    if (!mounted) {
+      const byPath = new Map<string, WSServer>();
+      const listener = (request: IncomingMessage, socket: Duplex, head: Buffer) => {
+        // Parsed once here; a throw in this listener would take the process down
+        const url = parseRequestUrl(request);
+        if (!url) {
+          console.warn(`[WSServer] Rejected upgrade with malformed target ${request.url}`);
+          rejectUpgrade(socket, 400);
+          return;
+        }
+        const endpoint = byPath.get(normalizePath(url.pathname)) ?? byPath.get(ANY_PATH);
+        if (!endpoint) {
+          rejectUpgrade(socket, 404);
+          return;
+        }
+        endpoint.handleUpgrade(request, socket, head, url);
+      };
+      mounted = { byPath, listener };
+      WSServer.endpoints.set(this.httpServer, mounted);
+      this.httpServer.on('upgrade', listener);
+    }
+
+    const key = this.path ?? ANY_PATH;
+    if (mounted.byPath.has(key)) {
+      throw new Error(`A WSServer is already mounted on ${this.path ?? 'every path'}`);
+    }
+    mounted.byPath.set(key, this);
+  }
+
+  /**
+   * Stop receiving upgrades; the last server out removes the listener
+   */
+  private unmount(): void {
+    const mounted = WSServer.endpoints.get(this.httpServer);
+    if (!mounted) return;
+
+    mounted.byPath.delete(this.path ?? ANY_PATH);
+    if (mounted.byPath.size === 0) {
+      this.httpServer.off('upgrade', mounted.listener);
+      WSServer.endpoints.delete(this.httpServer);
+    }
+  }
 
-      // Setup client-specific event handlers
-      this.setupClientHandlers(ws, clientId);
+  /**
+   * Admit, authenticate and time an HTTP upgrade, handing it to `ws` only if
+   * it passes everything. `url` is the request target, already parsed.
+   */
+  private handleUpgrade = async (
+    request: IncomingMessage,
+    socket: Duplex,
+    head: Buffer,
+    url: URL
+  ) => {
+    const rejection = this.checkAdmission(request);
+    if (rejection) {
+      this.refuseUpgrade(socket, rejection.status, rejection.reason);
+      return;
+    }
+
+    // Hold the slot until the socket is gone, however the upgrade ends
+    const address = request.socket.remoteAddress ?? 'unknown';
+    this.admit(address);
+    let released = false;
+    const release = () => {
+      if (released) return;
+      released = true;
+      this.release(address);
+    };
+    socket.once('close', release);
+
+    // The socket may error while we wait on the authenticator
+    const onSocketError = () => socket.destroy();
+    socket.on('error', onSocketError);
+
+    let timedOut = false;
+    const handshakeTimer = setTimeout(() => {
+      timedOut = true;
+      console.warn(`[WSServer] Upgrade from ${address} took over ${this.handshakeTimeout}ms`);
+      this.refuseUpgrade(socket, 408, 'timeout');
+    }, this.handshakeTimeout);
+
+    try {
+      // Nobody joins until the saved state is back
+      await this.stateRestored;
+      if (timedOut) return;
 
-      // Notify app logic of new connection
-      this.appLogic.handleConnect(this.state, clientId, this.createHelpers());
+      // A draining server sends newcomers elsewhere
+      if (this.isClosing) {
+        this.refuseUpgrade(socket, 503, 'shutting_down');
+        return;
+      }
+
+      let identity: AuthIdentity | null = null;
+      if (this.authenticate) {
+        try {
+          identity = await this.authenticate(request, url);
+        } catch (error) {
+          console.error('[WSServer] Authenticator failed:', error);
+        }
+        if (timedOut) return;
+
+        if (!identity) {
+          console.warn(`[WSServer] Rejected unauthenticated upgrade from ${address}`);
+          this.refuseUpgrade(socket, 401, 'unauthorized');
+          return;
+        }
+      }
+
+      socket.off('error', onSocketError);
+      this.wss.handleUpgrade(request, socket, head, (ws) => {
+        ws.once('close', release);
+        this.wss.emit('connection', ws, request, identity, url);
+      });
+    } finally {
+      clearTimeout(handshakeTimer);
+    }
+  };
+
+  /**
+   * Why an upgrade may not even start, or null when it may
+   */
+  private checkAdmission(request: IncomingMessage): { status: number; reason: string } | null {
+    if (!isOriginAllowed(request, this.allowedOrigins)) {
+      console.warn(`[WSServer] Rejected upgrade from origin ${request.headers.origin}`);
+      return { status: 403, reason: 'origin' };
+    }
+    if (this.admittedTotal >= this.maxConnections) {
+      console.warn(`[WSServer] Rejected upgrade: at the limit of ${this.maxConnections} connections`);
+      return { status: 503, reason: 'capacity' };
+    }
+    const address = request.socket.remoteAddress ?? 'unknown';
+    if ((this.admitted.get(address) ?? 0) >= this.maxConnectionsPerAddress) {
+      console.warn(`[WSServer] Rejected upgrade: ${address} has ${this.maxConnectionsPerAddress} connections`);
+      return { status: 429, reason: 'address_limit' };
+    }
+    return null;
+  }
+
+  /**
+   * Count a connection against the limits
+   */
+  private admit(address: string): void {
+    this.admittedTotal++;
+    this.admitted.set(address, (this.admitted.get(address) ?? 0) + 1);
+  }
+
+  /**
+   * Give back a connection's slot
+   */
+  private release(address: string): void {
+    this.admittedTotal--;
+    const count = (this.admitted.get(address) ?? 1) - 1;
+    if (count > 0) {
+      this.admitted.set(address, count);
+    } else {
+      this.admitted.delete(address);
+    }
+  }
+
+  /**
+   * Refuse an upgrade and count why
+   */
+  private refuseUpgrade(socket: Duplex, status: number, reason: string): void {
+    this.metrics.rejectedUpgrades.inc({ reason });
+    rejectUpgrade(socket, status);
+  }
+
+  /**
+   * Replace the initial state with the latest snapshot, if there is one
+   */
+  private async restoreState(): Promise<void> {
+    if (!this.stateStore) return;
+
+    try {
+      const snapshot = await this.stateStore.load();
+      if (!snapshot) return;
+
+      this.state = this.appLogic.deserializeState
+        ? this.appLogic.deserializeState(snapshot.state)
+        : (snapshot.state as State);
+      console.log(`[WSServer] Restored state from ${new Date(snapshot.savedAt).toISOString()}`);
+    } catch (error) {
+      console.error('[WSServer] Failed to restore state, starting fresh:', error);
+    }
+  }
+
+  /**
+   * Snapshot the state on a fixed interval
+   */
+  private startSnapshots(interval: number): void {
+    if (!this.stateStore || interval <= 0) return;
+
+    this.snapshotTimer = setInterval(() => {
+      this.snapshot().catch((error) => console.error('[WSServer] Snapshot failed:', error));
+    }, interval);
+  }
+
+  /**
+   * Save the current state to the store. Snapshots run one at a time, in order.
+   */
+  snapshot(): Promise<void> {
+    const store = this.stateStore;
+    if (!store) return Promise.resolve();
+
+    const next = this.pendingSnapshot.then(async () => {
+      const state = this.appLogic.serializeState
+        ? this.appLogic.serializeState(this.state)
+        : this.state;
+      await store.save({ version: SNAPSHOT_VERSION, savedAt: Date.now(), state });
     });
+    // Keep the chain going even if this snapshot fails
+    this.pendingSnapshot = next.catch(() => {});
+    return next;
+  }
 
-    this.wss.on('error', (error) => {
-      console.error('[WSServer] WebSocket server error:', error);
+  /**
+   * Register a brand new client
+   */
+  private startSession(ws: WebSocket, request: IncomingMessage, identity: AuthIdentity | null): void {
+    const clientId = generateClientId();
+    this.metrics.connectionsTotal.inc();
+    this.clients.set(clientId, this.createConnection(ws, request, this.issueResumeToken(clientId)));
+    this.identities.set(clientId, identity);
+    this.locals.set(clientId, {});
+
+    console.log(`[WSServer] Client connected: ${clientId} (total: ${this.clients.size})`);
+
+    // Setup client-specific event handlers
+    this.setupClientHandlers(ws, clientId);
+    this.sendWelcome(clientId, false);
+
+    // Notify app logic of new connection
+    this.appLogic.handleConnect(this.state, clientId, this.createHelpers(), identity);
+  }
+
+  /**
+   * Attach a reconnecting client to its existing session and replay what it missed
+   */
+  private resumeSession(ws: WebSocket, request: IncomingMessage, clientId: string): void {
+    const session = this.suspendedSessions.get(clientId);
+    if (session) {
+      clearTimeout(session.expiryTimeout);
+      this.suspendedSessions.delete(clientId);
+      this.resumeTokens.delete(session.resumeToken);
+    }
+
+    // The old socket may still look open if the drop wasn't detected yet
+    const stale = this.clients.get(clientId);
+    if (stale) {
+      this.clearHeartbeatTimeout(clientId);
+      this.resumeTokens.delete(stale.resumeToken);
+      stale.ws.terminate();
+    }
+
+    this.clients.set(clientId, this.createConnection(ws, request, this.issueResumeToken(clientId)));
+
+    console.log(`[WSServer] Client resumed: ${clientId} (total: ${this.clients.size})`);
+
+    this.setupClientHandlers(ws, clientId);
+    this.sendWelcome(clientId, true);
+    session?.missedMessages.forEach((message) => this.sendTo(clientId, message));
+
+    if (session) {
+      this.enqueue(clientId, () =>
+        this.appLogic.handleResume?.(
+          this.state,
+          clientId,
+          this.createHelpers(),
+          this.identities.get(clientId) ?? null
+        )
+      );
+    }
+  }
+
+  /**
+   * Hold a dropped client's session open for the grace period
+   */
+  private suspendSession(clientId: string, resumeToken: string): void {
+    console.log(`[WSServer] Client suspended: ${clientId} (holding for ${this.resumeGracePeriod}ms)`);
+
+    const expiryTimeout = setTimeout(() => {
+      console.log(`[WSServer] Session expired: ${clientId}`);
+      this.suspendedSessions.delete(clientId);
+      this.resumeTokens.delete(resumeToken);
+      this.endSession(clientId);
+    }, this.resumeGracePeriod);
+
+    this.suspendedSessions.set(clientId, { resumeToken, expiryTimeout, missedMessages: [] });
+    this.enqueue(clientId, () =>
+      this.appLogic.handleSuspend?.(
+        this.state,
+        clientId,
+        this.createHelpers(),
+        this.identities.get(clientId) ?? null
+      )
+    );
+  }
+
+  /**
+   * Tear down a client that is gone for good, once the messages it sent
+   * before leaving have been handled
+   */
+  private endSession(clientId: string): void {
+    console.log(`[WSServer] Client disconnected: ${clientId} (remaining: ${this.clients.size})`);
+
+    this.enqueue(clientId, () => {
+      // Notify app logic of disconnection
+      const identity = this.identities.get(clientId) ?? null;
+      this.identities.delete(clientId);
+      this.locals.delete(clientId);
+      this.appLogic.handleDisconnect(this.state, clientId, this.createHelpers(), identity);
+
+      // Release room memberships after app logic had a chance to notify the rooms
+      this.leaveAllRooms(clientId);
+    });
+  }
+
+  /**
+   * Bookkeeping for a freshly opened socket
+   */
+  private createConnection(
+    ws: WebSocket,
+    request: IncomingMessage,
+    resumeToken: string
+  ): ClientConnection {
+    return {
+      ws,
+      heartbeatTimeout: null,
+      resumeToken,
+      rateLimiter: this.createRateLimiter(),
+      codec: findCodec(ws.protocol, this.codecs) ?? jsonCodec,
+      coalesced: new Map(),
+      connectedAt: Date.now(),
+      remoteAddress: request.socket.remoteAddress ?? null,
+      messagesReceived: 0,
+    };
+  }
+
+  /**
+   * Create a resume token for a client and remember who it belongs to
+   */
+  private issueResumeToken(clientId: string): string {
+    const token = generateResumeToken();
+    this.resumeTokens.set(token, clientId);
+    return token;
+  }
+
+  /**
+   * Tell a client who it is and how to resume its session
+   */
+  private sendWelcome(clientId: string, resumed: boolean): void {
+    const client = this.clients.get(clientId);
+    if (!client) return;
+
+    this.sendTo(clientId, {
+      type: 'welcome',
+      payload: {
+        clientId,
+        protocolVersion: PROTOCOL_VERSION,
+        resumeToken: client.resumeToken,
+        resumed,
+      },
+    });
+  }
+
+  /**
+   * Give a connection its own buckets, or null when rate limiting is off
+   */
+  private createRateLimiter(): ClientRateLimiter | null {
+    return this.rateLimit ? new ClientRateLimiter(this.rateLimit) : null;
+  }
+
+  /**
+   * Charge an inbound frame to the client's buckets. When it is over the
+   * limit, tell the client when to retry and return true so the frame is
+   * dropped; clients that keep flooding are disconnected.
+   */
+  private isRateLimited(clientId: string, messageType: string | null, requestId?: string): boolean {
+    const client = this.clients.get(clientId);
+    if (!client?.rateLimiter) return false;
+
+    const retryAfterMs = client.rateLimiter.check(messageType);
+    if (retryAfterMs === 0) return false;
+
+    // Frames still arriving after we hung up on the client
+    if (client.ws.readyState !== WebSocket.OPEN) return true;
+
+    this.metrics.rateLimited.inc();
+    if (client.rateLimiter.recordViolation()) {
+      console.warn(`[WSServer] Client ${clientId} kept exceeding its rate limit, disconnecting`);
+      this.rateLimitDisconnects++;
+      client.ws.close(POLICY_VIOLATION, 'Rate limit exceeded');
+      return true;
+    }
+
+    this.sendTo(clientId, {
+      type: 'rateLimited',
+      payload: { retryAfterMs, messageType: messageType ?? undefined },
+      requestId,
     });
+    return true;
+  }
+
+  /**
+   * Keep a message for a suspended client so it can be replayed on resume
+   */
+  private bufferMissedMessage(clientId: string, message: ServerFrame): boolean {
+    const session = this.suspendedSessions.get(clientId);
+    if (!session) return false;
+
+    session.missedMessages.push(message);
+    if (session.missedMessages.length > this.maxMissedMessages) {
+      session.missedMessages.shift();
+    }
+    return true;
   }
 
   /**
    * Setup event handlers for a specific client connection
    */
   private setupClientHandlers(ws: WebSocket, clientId: string): void {
-    ws.on('message', (data: Buffer) => {
+    ws.on('pong', () => this.clearHeartbeatTimeout(clientId));
+
+    const connection = this.clients.get(clientId);
+    const codec = connection?.codec ?? jsonCodec;
+
+    ws.on('message', (data: Buffer, isBinary: boolean) => {
+      // Any traffic proves the connection is alive
+      this.clearHeartbeatTimeout(clientId);
+      this.metrics.bytesReceived.inc({}, data.length);
+      if (connection) connection.messagesReceived++;
+
       try {
-        const message = JSON.parse(data.toString()) as ClientMessage;
-        console.log(`[WSServer] Message from ${clientId}:`, message);
+        const result = validateClientMessage(codec.decode(isBinary ? data : data.toString()));
+        const { requestId } = result;
+        if (result.ok) this.metrics.messagesReceived.inc({ type: result.message.type });
+        if (this.isRateLimited(clientId, result.ok ? result.message.type : null, requestId)) {
+          return;
+        }
+
+        if (!result.ok) {
+          const { message, field } = result.error;
+          console.warn(`[WSServer] Rejected message from ${clientId}: ${field ?? 'message'} - ${message}`);
+          this.metrics.messageErrors.inc({ reason: 'validation' });
+        }
+
+        // Validation errors, and pongs for browsers, which can't see ping frames
+        const immediate = immediateReply(result);
+        if (immediate) this.sendTo(clientId, immediate);
+        if (immediate || !result.ok) return;
+
+        const message = result.message;
 
-        // Route to app logic
-        const context: MessageContext = {
+        // Route through middleware to app logic
+        this.enqueueMessage({
           clientId,
           message,
           helpers: this.createHelpers(),
-        };
-        this.appLogic.handleMessage(this.state, context);
+          identity: this.identities.get(clientId) ?? null,
+          locals: this.locals.get(clientId) ?? {},
+          requestId,
+          reply: (reply: ServerMessage) => this.sendTo(clientId, { ...reply, requestId }),
+          replyError: (errorMessage: string, code?: string) =>
+            this.sendTo(clientId, {
+              type: 'error',
+              payload: { message: errorMessage, code },
+              requestId,
+            }),
+        });
       } catch (error) {
+        if (this.isRateLimited(clientId, null)) return;
+
         console.error(`[WSServer] Error parsing message from ${clientId}:`, error);
+        this.metrics.messageErrors.inc({ reason: 'parse' });
         this.sendTo(clientId, {
           type: 'error',
-          payload: { message: 'Invalid message format' },
+          payload: { message: 'Invalid message format', code: 'INVALID_JSON' },
         });
       }
     });
 
-    ws.on('close', () => {
-      console.log(`[WSServer] Client disconnected: ${clientId} (remaining: ${this.clients.size - 1})`);
+    ws.on('close', (code: number) => {
+      this.metrics.disconnectsTotal.inc({ code: String(code) });
+
+      const client = this.clients.get(clientId);
+      // A resumed session has already moved on to a new socket
+      if (!client || client.ws !== ws) return;
+
+      this.clearHeartbeatTimeout(clientId);
       this.clients.delete(clientId);
 
-      // Notify app logic of disconnection
-      this.appLogic.handleDisconnect(this.state, clientId, this.createHelpers());
+      const canResume =
+        code === ABNORMAL_CLOSURE && this.resumeGracePeriod > 0 && !this.isClosing;
+
+      if (canResume) {
+        this.suspendSession(clientId, client.resumeToken);
+      } else {
+        this.resumeTokens.delete(client.resumeToken);
+        this.endSession(clientId);
+      }
+
+      if (this.clients.size === 0) this.onClientsGone?.();
     });
 
     ws.on('error', (error) => {
@@ -105,61 +1054,509 @@ export class WSServer<State = any> {
     });
   }
 
+  /**
+   * Run a message through app logic once the sender's earlier messages are
+   * done. Each client has its own queue, so a slow handler only holds up
+   * the client that sent the message.
+   */
+  private enqueueMessage(context: MessageContext): void {
+    this.enqueue(context.clientId, () => this.runHandler(context));
+  }
+
+  /**
+   * Run `task` after everything already queued for the client: its messages
+   * and its suspend, resume and disconnect callbacks happen in order
+   */
+  private enqueue(clientId: string, task: () => void | Promise<void>): void {
+    const previous = this.messageQueues.get(clientId) ?? Promise.resolve();
+    const next = previous.then(task).catch((error) => {
+      console.error(`[WSServer] Lifecycle callback failed for ${clientId}:`, error);
+    });
+    this.messageQueues.set(clientId, next);
+
+    next.then(() => {
+      // Drop the queue once it is idle so it doesn't outlive the client
+      if (this.messageQueues.get(clientId) === next) {
+        this.messageQueues.delete(clientId);
+      }
+    });
+  }
+
+  /**
+   * Pass a message through the inbound middleware chain to handleMessage,
+   * turning a throw or rejection into an internal error for the sender.
+   * Never rejects.
+   */
+  private async runHandler(context: MessageContext): Promise<void> {
+    const { type } = context.message;
+    const startedAt = performance.now();
+    try {
+      await runInbound(this.middleware, context, () =>
+        this.appLogic.handleMessage(this.state, context)
+      );
+    } catch (error) {
+      this.metrics.messageErrors.inc({ reason: 'handler' });
+      console.error(
+        `[WSServer] Handler failed for message from ${context.clientId}:`,
+        context.message,
+        error
+      );
+      context.replyError('Internal server error', 'INTERNAL_ERROR');
+    } finally {
+      this.metrics.handlerDuration.observe((performance.now() - startedAt) / 1000, { type });
+    }
+  }
+
+  /**
+   * Drive AppLogic.handleTick, once the saved state is back
+   */
+  private startTicks(tickRate: number): void {
+    const handleTick = this.appLogic.handleTick;
+    if (!handleTick || tickRate <= 0) return;
+
+    const helpers = this.createHelpers();
+    this.tickLoop = new TickLoop(tickRate, (dt) => {
+      try {
+        handleTick(this.state, dt, helpers);
+      } catch (error) {
+        console.error('[WSServer] handleTick failed:', error);
+      }
+    });
+    this.stateRestored.then(() => {
+      if (!this.isClosing) this.tickLoop?.start();
+    });
+  }
+
+  /**
+   * Ping every client on a fixed interval and drop those that stop answering
+   */
+  private startHeartbeat(): void {
+    if (this.heartbeatInterval <= 0) return;
+
+    this.heartbeatTimer = setInterval(() => {
+      this.clients.forEach((client, clientId) => {
+        if (client.heartbeatTimeout || client.ws.readyState !== WebSocket.OPEN) return;
+
+        client.heartbeatTimeout = setTimeout(() => {
+          console.warn(`[WSServer] Client ${clientId} missed heartbeat, terminating`);
+          client.heartbeatTimeout = null;
+          // terminate() fires 'close', which runs the normal disconnect path
+          client.ws.terminate();
+        }, this.heartbeatTimeout);
+
+        client.ws.ping();
+      });
+    }, this.heartbeatInterval);
+  }
+
+  /**
+   * Clear a client's pending heartbeat deadline
+   */
+  private clearHeartbeatTimeout(clientId: string): void {
+    const client = this.clients.get(clientId);
+    if (client?.heartbeatTimeout) {
+      clearTimeout(client.heartbeatTimeout);
+      client.heartbeatTimeout = null;
+    }
+  }
+
   /**
    * Create helper functions for app logic to send messages
    */
   private createHelpers(): MessageHelpers {
     return {
-      broadcastAll: (message: ServerMessage) => this.broadcastAll(message),
-      sendTo: (clientId: string, message: ServerMessage) => this.sendTo(clientId, message),
-      broadcastExcept: (excludeClientId: string, message: ServerMessage) =>
-        this.broadcastExcept(excludeClientId, message),
+      broadcastAll: (message: ServerMessage, options?: SendOptions) =>
+        this.route({ kind: 'broadcastAll', message, options }),
+      sendTo: (clientId: string, message: ServerMessage, options?: SendOptions) =>
+        this.route({ kind: 'sendTo', clientId, message, options }),
+      broadcastExcept: (excludeClientId: string, message: ServerMessage, options?: SendOptions) =>
+        this.route({ kind: 'broadcastExcept', excludeClientId, message, options }),
+      joinRoom: (clientId: string, room: string) => this.joinRoom(clientId, room),
+      leaveRoom: (clientId: string, room: string) => this.leaveRoom(clientId, room),
+      broadcastToRoom: (
+        room: string,
+        message: ServerMessage,
+        excludeClientId?: string,
+        options?: SendOptions
+      ) => this.route({ kind: 'broadcastToRoom', room, excludeClientId, message, options }),
+      listRoomMembers: (room: string) => this.listRoomMembers(room),
+      setTimer: (delayMs: number, callback: TimerCallback) =>
+        this.scheduler.setTimer(delayMs, callback),
+      setRepeatingTimer: (intervalMs: number, callback: TimerCallback) =>
+        this.scheduler.setRepeatingTimer(intervalMs, callback),
+      clearTimer: (timerId: string) => this.scheduler.clearTimer(timerId),
+    };
+  }
+
+  /**
+   * Carry out a helper call on our own clients and, unless it is a sendTo
+   * for a client we own, on every other instance too
+   */
+  private route(delivery: ClusterDelivery): void {
+    const ownsTarget = delivery.kind === 'sendTo' && this.ownsClient(delivery.clientId);
+    this.deliverLocally(delivery);
+    if (!ownsTarget) {
+      this.adapter.publish({ ...delivery, origin: this.nodeId });
+    }
+  }
+
+  /**
+   * Deliver what another instance published to our own clients
+   */
+  private handleClusterEnvelope(envelope: ClusterEnvelope): void {
+    if (envelope.origin === this.nodeId) return;
+    this.deliverLocally(envelope);
+  }
+
+  /**
+   * Apply a delivery to the clients connected to this instance
+   */
+  private deliverLocally(delivery: ClusterDelivery): void {
+    const { message, options } = delivery;
+    switch (delivery.kind) {
+      case 'broadcastAll':
+        this.broadcastAll(message, options);
+        break;
+      case 'broadcastExcept':
+        this.broadcastExcept(delivery.excludeClientId, message, options);
+        break;
+      case 'sendTo':
+        // Only the instance holding the client (or its suspended session) delivers
+        if (this.ownsClient(delivery.clientId)) {
+          this.sendTo(delivery.clientId, message, options);
+        }
+        break;
+      case 'broadcastToRoom':
+        this.broadcastToRoom(delivery.room, message, delivery.excludeClientId, options);
+        break;
+    }
+  }
+
+  /**
+   * Whether a client is connected to (or suspended on) this instance
+   */
+  private ownsClient(clientId: string): boolean {
+    return this.clients.has(clientId) || this.suspendedSessions.has(clientId);
+  }
+
+  /**
+   * Write a message to an open client in its codec, honoring the
+   * backpressure policy once its send buffer is above the high-water mark
+   */
+  private deliver(
+    clientId: string,
+    client: ClientConnection,
+    message: ServerFrame,
+    encode: (codec: Codec) => string | Uint8Array,
+    options: SendOptions = {}
+  ): void {
+    const outgoing = this.applyOutbound(clientId, message);
+    if (!outgoing) return;
+
+    const { ws } = client;
+    // Middleware that replaced the message rules out the shared encoding
+    const data = outgoing === message ? encode(client.codec) : client.codec.encode(outgoing);
+    const buffered = ws.bufferedAmount;
+
+    if (buffered >= this.highWaterMark) {
+      const size = typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength;
+      const overLimit = !options.droppable && buffered + size > this.maxBufferedAmount;
+      if (this.backpressurePolicy === 'disconnect' || overLimit) {
+        this.disconnectSlowConsumer(clientId, client);
+        return;
+      }
+
+      if (options.droppable) {
+        // Coalescing replaces the previous pending message of this type
+        if (this.backpressurePolicy === 'drop' || client.coalesced.has(outgoing.type)) {
+          this.metrics.droppedMessages.inc();
+        }
+        if (this.backpressurePolicy === 'coalesce') {
+          client.coalesced.set(outgoing.type, data);
+        }
+        return;
+      }
+    }
+
+    this.send(client, outgoing.type, data);
+  }
+
+  /**
+   * Write encoded data to a client's socket and count it
+   */
+  private send(client: ClientConnection, type: string, data: string | Uint8Array): void {
+    this.metrics.messagesSent.inc({ type });
+    this.metrics.bytesSent.inc({}, typeof data === 'string' ? Buffer.byteLength(data) : data.byteLength);
+    client.ws.send(data, () => this.flushCoalesced(client));
+  }
+
+  /**
+   * Run a message through the outbound middleware for one recipient.
+   * Returns null when a middleware skipped it or failed.
+   */
+  private applyOutbound(clientId: string, message: ServerFrame): ServerFrame | null {
+    const context: ClientContext = {
+      clientId,
+      identity: this.identities.get(clientId) ?? null,
+      locals: this.locals.get(clientId) ?? {},
     };
+
+    let current: ServerFrame | null = message;
+    for (const [position, middleware] of this.middleware.entries()) {
+      if (!middleware.outbound) continue;
+      try {
+        current = middleware.outbound(current, context);
+      } catch (error) {
+        console.error(
+          `[WSServer] Outbound middleware ${middleware.name ?? position} failed for ${clientId}, not sending:`,
+          message,
+          error
+        );
+        return null;
+      }
+      if (!current) return null;
+    }
+    return current;
+  }
+
+  /**
+   * Send the held-back droppable messages once the client's buffer has drained
+   */
+  private flushCoalesced(client: ClientConnection): void {
+    if (client.coalesced.size === 0) return;
+    if (client.ws.readyState !== WebSocket.OPEN || client.ws.bufferedAmount >= this.highWaterMark) {
+      return;
+    }
+
+    const pending = Array.from(client.coalesced.entries());
+    client.coalesced.clear();
+    pending.forEach(([type, data]) => this.send(client, type, data));
+  }
+
+  /**
+   * Hang up on a client that can't keep up with what we send it
+   */
+  private disconnectSlowConsumer(clientId: string, client: ClientConnection): void {
+    console.warn(
+      `[WSServer] Client ${clientId} is too slow (${client.ws.bufferedAmount} bytes buffered), disconnecting`
+    );
+    this.slowConsumerDisconnects++;
+    client.coalesced.clear();
+    client.ws.close(SLOW_CONSUMER, 'Slow consumer');
   }
 
   /**
-   * Send a message to all connected clients
+   * Send a message to all clients connected to this instance
    */
-  private broadcastAll(message: ServerMessage): void {
-    const data = JSON.stringify(message);
-    this.clients.forEach((ws, clientId) => {
-      if (ws.readyState === WebSocket.OPEN) {
-        ws.send(data);
+  private broadcastAll(message: ServerMessage, options?: SendOptions): void {
+    const encode = createFrameEncoder(message);
+    this.clients.forEach((client, clientId) => {
+      if (client.ws.readyState === WebSocket.OPEN) {
+        this.deliver(clientId, client, message, encode, options);
       } else {
         console.warn(`[WSServer] Client ${clientId} not ready, skipping broadcast`);
       }
     });
+    this.suspendedSessions.forEach((_session, clientId) => this.bufferMissedMessage(clientId, message));
   }
 
   /**
-   * Send a message to a specific client
+   * Send a message to a specific client connected to this instance
    */
-  private sendTo(clientId: string, message: ServerMessage): void {
-    const ws = this.clients.get(clientId);
-    if (!ws) {
-      console.warn(`[WSServer] Client ${clientId} not found`);
+  private sendTo(clientId: string, message: ServerFrame, options?: SendOptions): void {
+    const client = this.clients.get(clientId);
+    if (!client) {
+      if (!this.bufferMissedMessage(clientId, message)) {
+        console.warn(`[WSServer] Client ${clientId} not found`);
+      }
       return;
     }
 
-    if (ws.readyState === WebSocket.OPEN) {
-      ws.send(JSON.stringify(message));
+    if (client.ws.readyState === WebSocket.OPEN) {
+      this.deliver(clientId, client, message, createFrameEncoder(message), options);
     } else {
       console.warn(`[WSServer] Client ${clientId} not ready`);
     }
   }
 
   /**
-   * Broadcast a message to all clients except one
+   * Broadcast a message to all clients on this instance except one
+   */
+  private broadcastExcept(
+    excludeClientId: string,
+    message: ServerMessage,
+    options?: SendOptions
+  ): void {
+    const encode = createFrameEncoder(message);
+    this.clients.forEach((client, clientId) => {
+      if (clientId !== excludeClientId && client.ws.readyState === WebSocket.OPEN) {
+        this.deliver(clientId, client, message, encode, options);
+      }
+    });
+    this.suspendedSessions.forEach((_session, clientId) => {
+      if (clientId !== excludeClientId) {
+        this.bufferMissedMessage(clientId, message);
+      }
+    });
+  }
+
+  /**
+   * Add a client to a room, creating the room on first join
+   */
+  private joinRoom(clientId: string, room: string): void {
+    if (!this.clients.has(clientId)) {
+      console.warn(`[WSServer] Cannot join room ${room}: client ${clientId} not found`);
+      return;
+    }
+
+    let members = this.rooms.get(room);
+    if (!members) {
+      members = new Set();
+      this.rooms.set(room, members);
+    }
+    members.add(clientId);
+
+    let joined = this.clientRooms.get(clientId);
+    if (!joined) {
+      joined = new Set();
+      this.clientRooms.set(clientId, joined);
+    }
+    joined.add(room);
+  }
+
+  /**
+   * Remove a client from a room, discarding the room once it is empty
+   */
+  private leaveRoom(clientId: string, room: string): void {
+    const members = this.rooms.get(room);
+    if (members) {
+      members.delete(clientId);
+      if (members.size === 0) {
+        this.rooms.delete(room);
+      }
+    }
+
+    const joined = this.clientRooms.get(clientId);
+    if (joined) {
+      joined.delete(room);
+      if (joined.size === 0) {
+        this.clientRooms.delete(clientId);
+      }
+    }
+  }
+
+  /**
+   * Remove a client from every room it belongs to
+   */
+  private leaveAllRooms(clientId: string): void {
+    const joined = this.clientRooms.get(clientId);
+    if (!joined) return;
+
+    Array.from(joined).forEach((room) => this.leaveRoom(clientId, room));
+  }
+
+  /**
+   * Send a message to every member of a room on this instance, optionally skipping one client
    */
-  private broadcastExcept(excludeClientId: string, message: ServerMessage): void {
-    const data = JSON.stringify(message);
-    this.clients.forEach((ws, clientId) => {
-      if (clientId !== excludeClientId && ws.readyState === WebSocket.OPEN) {
-        ws.send(data);
+  private broadcastToRoom(
+    room: string,
+    message: ServerMessage,
+    excludeClientId?: string,
+    options?: SendOptions
+  ): void {
+    const members = this.rooms.get(room);
+    if (!members) return;
+
+    const encode = createFrameEncoder(message);
+    members.forEach((clientId) => {
+      if (clientId === excludeClientId) return;
+
+      const client = this.clients.get(clientId);
+      if (client && client.ws.readyState === WebSocket.OPEN) {
+        this.deliver(clientId, client, message, encode, options);
+      } else {
+        this.bufferMissedMessage(clientId, message);
       }
     });
   }
 
+  /**
+   * List the clientIds currently in a room
+   */
+  private listRoomMembers(room: string): string[] {
+    return Array.from(this.rooms.get(room) ?? []);
+  }
+
+  /**
+   * Helpers for code outside app logic (e.g. admin routes) to message clients
+   */
+  getHelpers(): MessageHelpers {
+    return this.createHelpers();
+  }
+
+  /**
+   * Describe every client connected to this instance
+   */
+  listClients(): ClientInfo[] {
+    return Array.from(this.clients.entries(), ([clientId, client]) => ({
+      clientId,
+      endpoint: this.path,
+      connectedAt: client.connectedAt,
+      remoteAddress: client.remoteAddress,
+      userId: this.identities.get(clientId)?.userId ?? null,
+      messagesReceived: client.messagesReceived,
+      rooms: Array.from(this.clientRooms.get(clientId) ?? []),
+      details: this.appLogic.describeClient?.(this.state, clientId) ?? {},
+    }));
+  }
+
+  /**
+   * Whether a client is connected to (or suspended on) this server
+   */
+  hasClient(clientId: string): boolean {
+    return this.ownsClient(clientId);
+  }
+
+  /**
+   * Close a client's connection for good (its session is not held for
+   * resumption). Returns false when the client isn't connected here or is
+   * already closing.
+   */
+  disconnectClient(clientId: string, reason = 'Disconnected by an operator'): boolean {
+    const client = this.clients.get(clientId);
+    if (!client || client.ws.readyState !== WebSocket.OPEN) return false;
+
+    console.warn(`[WSServer] Disconnecting ${clientId}: ${reason}`);
+    // Close reasons are limited to 123 bytes; leave room for a cut-off character
+    client.ws.close(ADMIN_DISCONNECT, Buffer.from(reason).subarray(0, 120).toString());
+    return true;
+  }
+
+  /**
+   * Add middleware after the ones already registered. Inbound middleware
+   * runs in registration order, and so does outbound.
+   */
+  use(middleware: Middleware): this {
+    this.middleware.push(middleware);
+    return this;
+  }
+
+  /**
+   * Resolves once saved state is restored and the cluster adapter is
+   * receiving from the other instances
+   */
+  async ready(): Promise<void> {
+    await Promise.all([this.stateRestored, this.adapterReady]);
+  }
+
+  /**
+   * Resolves once every message received so far has been handled, along with
+   * the suspend, resume and disconnect callbacks queued behind them
+   */
+  async idle(): Promise<void> {
+    await Promise.all(this.messageQueues.values());
+  }
+
   /**
    * Get the current number of connected clients
    */
@@ -168,11 +1565,184 @@ export class WSServer<State = any> {
   }
 
   /**
-   * Close all connections and cleanup
+   * Get the number of dropped sessions waiting to be resumed
+   */
+  getSuspendedCount(): number {
+    return this.suspendedSessions.size;
+  }
+
+  /**
+   * Get the current number of non-empty rooms
+   */
+  getRoomCount(): number {
+    return this.rooms.size;
+  }
+
+  /**
+   * Get the total number of messages dropped for exceeding a rate limit
    */
-  close(): void {
+  getRateLimitedCount(): number {
+    return this.metrics.rateLimited.get();
+  }
+
+  /**
+   * Get the number of clients disconnected for sustained rate limit abuse
+   */
+  getRateLimitDisconnectCount(): number {
+    return this.rateLimitDisconnects;
+  }
+
+  /**
+   * Get how many bytes are queued for a client but not yet sent (0 if unknown)
+   */
+  getBufferedAmount(clientId: string): number {
+    return this.clients.get(clientId)?.ws.bufferedAmount ?? 0;
+  }
+
+  /**
+   * Get the number of droppable messages skipped for slow clients
+   */
+  getDroppedMessageCount(): number {
+    return this.metrics.droppedMessages.get();
+  }
+
+  /**
+   * Get the number of clients disconnected for falling too far behind
+   */
+  getSlowConsumerDisconnectCount(): number {
+    return this.slowConsumerDisconnects;
+  }
+
+  /**
+   * Get the number of upgrades refused before a socket opened
+   */
+  getRejectedUpgradeCount(): number {
+    return this.metrics.rejectedUpgrades.total();
+  }
+
+  /**
+   * Get how many messages made handleMessage throw or reject
+   */
+  getHandlerErrorCount(): number {
+    return this.metrics.messageErrors.get({ reason: 'handler' });
+  }
+
+  /**
+   * Render the metrics this server records into in the Prometheus text
+   * format (with a shared registry, that includes every endpoint)
+   */
+  renderMetrics(): string {
+    return this.metrics.registry.render();
+  }
+
+  /**
+   * Tell clients the server is going away and give them the drain period to
+   * leave; resolves early once they all have
+   */
+  private async drain(): Promise<void> {
+    const { timeout, reconnectAfter, reconnectJitter } = this.drainOptions;
+    console.log(`[WSServer] Draining ${this.clients.size} clients (up to ${timeout}ms)...`);
+
+    // Only this instance is going away, so the notice stays off the cluster
+    this.broadcastAll({
+      type: 'serverShuttingDown',
+      payload: { closeInMs: timeout, reconnectAfterMs: reconnectAfter, reconnectJitterMs: reconnectJitter },
+    });
+    if (timeout > 0) {
+      await this.waitForClientsGone(timeout);
+    }
+  }
+
+  /**
+   * Wait until every client has closed, or the timeout passes; resolves
+   * whether they all did
+   */
+  private async waitForClientsGone(timeout: number): Promise<boolean> {
+    if (this.clients.size === 0) return true;
+
+    const gone = await new Promise<boolean>((resolve) => {
+      const deadline = setTimeout(() => resolve(false), timeout);
+      this.onClientsGone = () => {
+        clearTimeout(deadline);
+        resolve(true);
+      };
+    });
+    this.onClientsGone = null;
+    return gone;
+  }
+
+  /**
+   * Shut down gracefully: refuse new connections, drain clients (see
+   * DrainOptions), let app logic flush, close whoever is left with
+   * GOING_AWAY, save a final snapshot and cleanup
+   */
+  async close(): Promise<void> {
     console.log('[WSServer] Closing WebSocket server...');
-    this.clients.forEach((ws) => ws.close());
+    this.isClosing = true;
+
+    // Nobody can resume into a server that is going away
+    this.suspendedSessions.forEach((session, clientId) => {
+      clearTimeout(session.expiryTimeout);
+      this.suspendedSessions.delete(clientId);
+      this.resumeTokens.delete(session.resumeToken);
+      this.endSession(clientId);
+    });
+
+    await this.drain();
+
+    if (this.heartbeatTimer) {
+      clearInterval(this.heartbeatTimer);
+      this.heartbeatTimer = null;
+    }
+    if (this.snapshotTimer) {
+      clearInterval(this.snapshotTimer);
+      this.snapshotTimer = null;
+    }
+    this.tickLoop?.stop();
+
+    try {
+      await this.appLogic.handleShutdown?.(this.state, this.createHelpers());
+    } catch (error) {
+      console.error('[WSServer] handleShutdown failed:', error);
+    }
+
+    this.clients.forEach(({ ws }, clientId) => {
+      this.clearHeartbeatTimeout(clientId);
+      ws.close(GOING_AWAY, 'Server shutting down');
+    });
+
+    // Sessions end as each close completes, and handleDisconnect runs after
+    // the client's in-flight messages. Wait for both while the adapter is
+    // still open and before the final snapshot.
+    if (!(await this.waitForClientsGone(CLOSE_TIMEOUT_MS))) {
+      console.warn(`[WSServer] ${this.clients.size} clients did not close in time, terminating`);
+      this.clients.forEach(({ ws, resumeToken }, clientId) => {
+        this.clients.delete(clientId);
+        this.resumeTokens.delete(resumeToken);
+        ws.terminate();
+        this.endSession(clientId);
+      });
+    }
+    await this.idle();
+
+    // Cancel app timers, including any handleShutdown or handleDisconnect set
+    this.scheduler.clearAll();
+
+    this.unmount();
+    this.stopCollectingMetrics();
+    this.metrics.connections.set(0);
+    this.metrics.suspendedSessions.set(0);
+    this.adapter.close();
     this.wss.close();
+
+    if (this.stateStore) {
+      try {
+        await this.snapshot();
+        console.log('[WSServer] Saved final state snapshot');
+      } catch (error) {
+        console.error('[WSServer] Final snapshot failed:', error);
+      }
+      await this.stateStore.close?.();
+    }
   }
 }
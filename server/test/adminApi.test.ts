@@ -0,0 +1,157 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import Fastify from 'fastify';
+import { WebSocket } from 'ws';
+import { adminApi } from '../src/adminApi.js';
+import { ADMIN_DISCONNECT, WSServer } from '../src/wsServer.js';
+import type { AppLogic, ServerMessage } from '../src/types.js';
+
+const TOKEN = 'admin-secret';
+
+const appLogic: AppLogic<{ names: Map<string, string> }> = {
+  createInitialState: () => ({ names: new Map() }),
+  handleConnect: (state, clientId) => {
+    state.names.set(clientId, 'Ada');
+  },
+  handleDisconnect: (state, clientId) => {
+    state.names.delete(clientId);
+  },
+  handleMessage: () => {},
+  describeClient: (state, clientId) => ({ username: state.names.get(clientId) }),
+};
+
+async function startAdminServer() {
+  const fastify = Fastify();
+  let wsServer: WSServer | null = null;
+  fastify.register(adminApi, {
+    prefix: '/admin',
+    token: TOKEN,
+    getServers: () => (wsServer ? [wsServer] : []),
+  });
+  await fastify.listen({ port: 0, host: '127.0.0.1' });
+  wsServer = new WSServer(fastify.server, appLogic, { middleware: [] });
+  await wsServer.ready();
+
+  const { port } = fastify.server.address() as { port: number };
+  const close = async () => {
+    await wsServer?.close();
+    await fastify.close();
+  };
+  return { fastify, port, close };
+}
+
+async function connect(port: number) {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+  const messages: ServerMessage[] = [];
+  ws.on('message', (data) => messages.push(JSON.parse(data.toString())));
+  await new Promise((resolve) => ws.once('message', resolve));
+  const clientId = messages[0].type === 'welcome' ? messages[0].payload.clientId : '';
+  return { ws, messages, clientId };
+}
+
+const auth = { authorization: `Bearer ${TOKEN}` };
+
+test('admin routes require the admin token', async (t) => {
+  const { fastify, close } = await startAdminServer();
+  t.after(close);
+
+  const missing = await fastify.inject({ method: 'GET', url: '/admin/clients' });
+  assert.equal(missing.statusCode, 401);
+
+  const wrong = await fastify.inject({
+    method: 'GET',
+    url: '/admin/clients',
+    headers: { authorization: 'Bearer nope' },
+  });
+  assert.equal(wrong.statusCode, 401);
+});
+
+test('lists connected clients with app details', async (t) => {
+  const { fastify, port, close } = await startAdminServer();
+  const client = await connect(port);
+  t.after(async () => {
+    client.ws.close();
+    await close();
+  });
+
+  client.ws.send(JSON.stringify({ type: 'ping', payload: { timestamp: 1 } }));
+  await new Promise((resolve) => client.ws.once('message', resolve));
+
+  const response = await fastify.inject({ method: 'GET', url: '/admin/clients', headers: auth });
+  assert.equal(response.statusCode, 200);
+
+  const body = response.json();
+  assert.equal(body.count, 1);
+  assert.equal(body.clients[0].clientId, client.clientId);
+  assert.equal(body.clients[0].remoteAddress, '127.0.0.1');
+  assert.equal(body.clients[0].messagesReceived, 1);
+  assert.deepEqual(body.clients[0].details, { username: 'Ada' });
+  assert.ok(body.clients[0].connectedAt <= Date.now());
+});
+
+test('pushes system messages to one client or everyone', async (t) => {
+  const { fastify, port, close } = await startAdminServer();
+  const alice = await connect(port);
+  const bob = await connect(port);
+  t.after(async () => {
+    alice.ws.close();
+    bob.ws.close();
+    await close();
+  });
+
+  const direct = await fastify.inject({
+    method: 'POST',
+    url: `/admin/clients/${alice.clientId}/message`,
+    headers: auth,
+    payload: { text: 'just you' },
+  });
+  assert.equal(direct.statusCode, 202);
+
+  const everyone = await fastify.inject({
+    method: 'POST',
+    url: '/admin/broadcast',
+    headers: auth,
+    payload: { text: 'maintenance soon' },
+  });
+  assert.equal(everyone.statusCode, 202);
+
+  const invalid = await fastify.inject({
+    method: 'POST',
+    url: '/admin/broadcast',
+    headers: auth,
+    payload: { text: '' },
+  });
+  assert.equal(invalid.statusCode, 400);
+
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const texts = (messages: ServerMessage[]) =>
+    messages.flatMap((message) => (message.type === 'systemMessage' ? [message.payload.text] : []));
+  assert.deepEqual(texts(alice.messages), ['just you', 'maintenance soon']);
+  assert.deepEqual(texts(bob.messages), ['maintenance soon']);
+});
+
+test('disconnects a client with a reason', async (t) => {
+  const { fastify, port, close } = await startAdminServer();
+  const client = await connect(port);
+  t.after(close);
+
+  const closed = new Promise<[number, string]>((resolve) =>
+    client.ws.once('close', (code, reason) => resolve([code, reason.toString()]))
+  );
+
+  const response = await fastify.inject({
+    method: 'POST',
+    url: `/admin/clients/${client.clientId}/disconnect`,
+    headers: auth,
+    payload: { reason: 'Spamming' },
+  });
+  assert.equal(response.statusCode, 200);
+  assert.deepEqual(await closed, [ADMIN_DISCONNECT, 'Spamming']);
+
+  const again = await fastify.inject({
+    method: 'POST',
+    url: `/admin/clients/${client.clientId}/disconnect`,
+    headers: auth,
+  });
+  assert.equal(again.statusCode, 404);
+});
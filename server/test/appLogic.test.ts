@@ -1,83 +1,333 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
-import { chatAppLogic } from '../src/appLogic.js';
-import type { ChatMessage, MessageHelpers } from '../src/types.js';
+import { chatAppLogic, createChatAppLogic, DEFAULT_ROOM } from '../src/appLogic.js';
+import { TestHarness } from '../src/testing.js';
 
 // NOTE: These tests are illustrative for the demo chat logic. Replace
 // them with app-specific tests when you swap in your own logic.
 
-function createHelperSpies() {
-  const sentTo: { clientId: string; message: any }[] = [];
-  const broadcasts: any[] = [];
-  const broadcastExcept: { excludeClientId: string; message: any }[] = [];
-
-  const helpers: MessageHelpers = {
-    sendTo: (clientId, message) => {
-      sentTo.push({ clientId, message });
-    },
-    broadcastAll: (message) => {
-      broadcasts.push(message);
-    },
-    broadcastExcept: (excludeClientId, message) => {
-      broadcastExcept.push({ excludeClientId, message });
-    },
-  };
-
-  return { helpers, sentTo, broadcasts, broadcastExcept };
+function createChat() {
+  return new TestHarness(chatAppLogic);
 }
 
 test('createInitialState returns empty state', () => {
   const state = chatAppLogic.createInitialState();
   assert.equal(state.users.size, 0);
-  assert.deepEqual(state.messageHistory, []);
+  assert.equal(state.messageHistory.size, 0);
 });
 
-test('handleConnect adds user and sends welcome', () => {
-  const state = chatAppLogic.createInitialState();
-  const { helpers, sentTo } = createHelperSpies();
+test('handleConnect adds user and joins the lobby', () => {
+  const chat = createChat();
 
-  chatAppLogic.handleConnect(state, 'client-1', helpers);
+  const alice = chat.connect();
 
-  assert.equal(state.users.size, 1);
-  assert.equal(sentTo.length, 1);
-  assert.equal(sentTo[0].clientId, 'client-1');
-  assert.equal(sentTo[0].message.type, 'welcome');
-  assert.equal(sentTo[0].message.payload.clientId, 'client-1');
+  assert.equal(chat.state.users.size, 1);
+  assert.equal(chat.state.users.get(alice.clientId)?.room, DEFAULT_ROOM);
+  assert.deepEqual(chat.listRoomMembers(DEFAULT_ROOM), [alice.clientId]);
+  assert.deepEqual(
+    alice.received.map((message) => message.type),
+    ['roomJoined', 'history', 'userList']
+  );
+  assert.equal(alice.lastOfType('roomJoined')?.payload.room, DEFAULT_ROOM);
 });
 
-test('handleMessage can set username and broadcast chat message', () => {
-  const state = chatAppLogic.createInitialState();
-  const { helpers, broadcasts } = createHelperSpies();
+test('a suspended user keeps their seat until they disconnect', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+  bob.clear();
 
-  // Connect a client first
-  chatAppLogic.handleConnect(state, 'client-1', helpers);
+  await alice.suspend();
+  await alice.resume();
 
-  // Set username from default Anonymous -> Alice
-  chatAppLogic.handleMessage(state, {
-    clientId: 'client-1',
-    message: { type: 'setUsername', payload: { username: 'Alice' } },
-    helpers,
-  });
+  assert.equal(chat.state.users.get(alice.clientId)?.room, DEFAULT_ROOM);
+  assert.equal(bob.received.length, 0);
 
-  // Send a chat message
-  chatAppLogic.handleMessage(state, {
-    clientId: 'client-1',
-    message: { type: 'sendMessage', payload: { text: 'Hello world' } },
-    helpers,
-  });
+  await alice.disconnect();
+  assert.equal(chat.state.users.size, 1);
+  assert.deepEqual(
+    bob.received.map((message) => message.type),
+    ['userLeft', 'presenceRemoved']
+  );
+});
+
+test('messages sent while suspended are replayed on resume', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+
+  await bob.suspend();
+  await alice.send({ type: 'sendMessage', payload: { text: 'you there?' } });
+  assert.equal(bob.ofType('chatMessage').length, 0);
+
+  await bob.resume();
+  assert.equal(bob.lastOfType('chatMessage')?.payload.text, 'you there?');
+});
+
+test('sendMessage broadcasts the chat message to the room', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+  bob.clear();
 
-  // First broadcast should be userJoined, second should be chatMessage
-  assert.equal(broadcasts.length, 2);
-  assert.equal(broadcasts[0].type, 'userJoined');
-  assert.equal(broadcasts[0].payload.username, 'Alice');
+  await alice.send({ type: 'setUsername', payload: { username: 'Alice' } });
+  const replies = await alice.request({ type: 'sendMessage', payload: { text: 'Hello world' } });
 
-  assert.equal(broadcasts[1].type, 'chatMessage');
-  const chatPayload = broadcasts[1].payload as ChatMessage;
+  // Bob sees Alice's name in the roster, hears her arrive, then her message
+  assert.deepEqual(
+    bob.received.map((message) => message.type),
+    ['presenceChanged', 'userJoined', 'chatMessage']
+  );
+  assert.equal(bob.lastOfType('userJoined')?.payload.username, 'Alice');
+
+  const chatPayload = bob.lastOfType('chatMessage')!.payload;
   assert.equal(chatPayload.username, 'Alice');
   assert.equal(chatPayload.text, 'Hello world');
-  assert.equal(chatPayload.clientId, 'client-1');
+  assert.equal(chatPayload.clientId, alice.clientId);
+  assert.equal(chatPayload.room, DEFAULT_ROOM);
+
+  // The sender isn't broadcast to; it gets the stored message as the reply
+  assert.equal(alice.ofType('chatMessage').length, 1);
+  assert.equal(replies.length, 1);
+  assert.deepEqual(replies[0], { type: 'chatMessage', payload: chatPayload, requestId: 'req_1' });
 
   // Message history should contain the sent message
-  assert.equal(state.messageHistory.length, 1);
-  assert.equal(state.messageHistory[0].text, 'Hello world');
+  const history = chat.state.messageHistory.get(DEFAULT_ROOM) ?? [];
+  assert.equal(history.length, 1);
+  assert.equal(history[0].text, 'Hello world');
+});
+
+test('joinRoom moves the user and keeps history per room', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+
+  await alice.send({ type: 'setUsername', payload: { username: 'Alice' } });
+  await alice.send({ type: 'joinRoom', payload: { room: 'games' } });
+
+  assert.equal(chat.state.users.get(alice.clientId)?.room, 'games');
+  assert.deepEqual(chat.listRoomMembers(DEFAULT_ROOM), [bob.clientId]);
+  assert.deepEqual(chat.listRoomMembers('games'), [alice.clientId]);
+
+  assert.equal(bob.lastOfType('userLeft')?.payload.room, DEFAULT_ROOM);
+  assert.deepEqual(alice.lastOfType('roomJoined')?.payload, { room: 'games', members: ['Alice'] });
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'gg' } });
+
+  assert.equal(chat.state.messageHistory.get('games')?.length, 1);
+  assert.equal(chat.state.messageHistory.get(DEFAULT_ROOM), undefined);
+  assert.equal(bob.ofType('chatMessage').length, 0);
+});
+
+test('joining a room replays its latest history', async () => {
+  const chat = new TestHarness(createChatAppLogic({ historyLimit: 5, historyPageSize: 2 }));
+  const alice = chat.connect();
+  for (let i = 1; i <= 6; i++) {
+    await alice.send({ type: 'sendMessage', payload: { text: `message ${i}` } });
+  }
+  assert.equal(chat.state.messageHistory.get(DEFAULT_ROOM)?.length, 5);
+
+  const bob = chat.connect();
+  const replay = bob.lastOfType('history')!.payload;
+  assert.equal(replay.room, DEFAULT_ROOM);
+  assert.deepEqual(
+    replay.messages.map((message) => message.text),
+    ['message 5', 'message 6']
+  );
+  assert.equal(replay.hasMore, true);
+
+  await bob.send({ type: 'joinRoom', payload: { room: 'games' } });
+  assert.deepEqual(bob.lastOfType('history')?.payload, { room: 'games', messages: [], hasMore: false });
+});
+
+test('fetchHistory pages back from the oldest message the client has', async () => {
+  const chat = new TestHarness(createChatAppLogic({ historyLimit: 5, historyPageSize: 2 }));
+  const alice = chat.connect();
+  for (let i = 1; i <= 5; i++) {
+    await alice.send({ type: 'sendMessage', payload: { text: `message ${i}` } });
+  }
+  const ids = chat.state.messageHistory.get(DEFAULT_ROOM)!.map((message) => message.id);
+  assert.equal(new Set(ids).size, 5);
+
+  const [page] = await alice.request({
+    type: 'fetchHistory',
+    payload: { room: DEFAULT_ROOM, before: ids[3] },
+  });
+  assert.equal(page.type, 'history');
+  assert.deepEqual(
+    page.type === 'history' && page.payload.messages.map((message) => message.id),
+    [ids[1], ids[2]]
+  );
+  assert.equal(page.type === 'history' && page.payload.hasMore, true);
+
+  const [last] = await alice.request({
+    type: 'fetchHistory',
+    payload: { room: DEFAULT_ROOM, before: ids[1], limit: 10 },
+  });
+  assert.deepEqual(last.type === 'history' && last.payload, {
+    room: DEFAULT_ROOM,
+    messages: [chat.state.messageHistory.get(DEFAULT_ROOM)![0]],
+    hasMore: false,
+  });
+
+  const [gone] = await alice.request({
+    type: 'fetchHistory',
+    payload: { room: DEFAULT_ROOM, before: 'msg_unknown' },
+  });
+  assert.deepEqual(gone.type === 'history' && gone.payload.messages, []);
+
+  const [elsewhere] = await alice.request({ type: 'fetchHistory', payload: { room: 'games' } });
+  assert.equal(elsewhere.type, 'error');
+});
+
+test('leaveRoom leaves the user roomless until they join again', async () => {
+  const chat = createChat();
+  const alice = chat.connect();
+
+  await alice.send({ type: 'leaveRoom', payload: { room: DEFAULT_ROOM } });
+
+  assert.equal(chat.state.users.get(alice.clientId)?.room, null);
+  assert.equal(alice.lastOfType('roomLeft')?.payload.room, DEFAULT_ROOM);
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'anyone?' } });
+
+  assert.equal(alice.lastMessage()?.type, 'error');
+});
+
+test('the roster follows connects, names, rooms and status', async () => {
+  const chat = createChat();
+  const alice = chat.connect();
+  await alice.send({ type: 'setUsername', payload: { username: 'Alice' } });
+
+  const bob = chat.connect();
+  assert.deepEqual(bob.lastOfType('userList')?.payload.users, [
+    { clientId: alice.clientId, username: 'Alice', room: DEFAULT_ROOM, status: 'online' },
+    { clientId: bob.clientId, username: null, room: DEFAULT_ROOM, status: 'online' },
+  ]);
+  assert.equal(alice.lastOfType('presenceChanged')?.payload.clientId, bob.clientId);
+
+  alice.clear();
+  await bob.send({ type: 'setStatus', payload: { status: 'away' } });
+  await bob.send({ type: 'setStatus', payload: { status: 'away' } });
+  await bob.send({ type: 'joinRoom', payload: { room: 'games' } });
+  assert.deepEqual(
+    alice.ofType('presenceChanged').map(({ payload }) => [payload.status, payload.room]),
+    [
+      ['away', DEFAULT_ROOM],
+      ['away', 'games'],
+    ]
+  );
+
+  await bob.disconnect();
+  assert.deepEqual(alice.lastMessage(), {
+    type: 'presenceRemoved',
+    payload: { clientId: bob.clientId },
+  });
+});
+
+test('typing notices reach everyone but the typer and expire on their own', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+  await alice.send({ type: 'setUsername', payload: { username: 'Alice' } });
+  alice.clear();
+  bob.clear();
+
+  await alice.send({ type: 'typingStarted', payload: { room: DEFAULT_ROOM } });
+  await chat.advance(4000);
+  await alice.send({ type: 'typingStarted', payload: { room: DEFAULT_ROOM } });
+
+  // Repeats keep the notice alive without telling Bob again
+  assert.deepEqual(bob.ofType('userTyping').map(({ payload }) => payload), [
+    { clientId: alice.clientId, username: 'Alice', room: DEFAULT_ROOM, typing: true },
+  ]);
+  assert.equal(alice.ofType('userTyping').length, 0);
+
+  await chat.advance(5999);
+  assert.equal(bob.lastOfType('userTyping')?.payload.typing, true);
+
+  // Alice went quiet, e.g. her tab crashed
+  await chat.advance(1);
+  assert.equal(bob.lastOfType('userTyping')?.payload.typing, false);
+  assert.equal(chat.state.typingTimers.size, 0);
+});
+
+test('typing stops when the typer sends, switches room or leaves', async () => {
+  const chat = createChat();
+  const [alice, bob] = chat.connectMany(2);
+  const typingStates = () => bob.ofType('userTyping').map(({ payload }) => payload.typing);
+
+  await alice.send({ type: 'typingStarted', payload: { room: DEFAULT_ROOM } });
+  await alice.send({ type: 'sendMessage', payload: { text: 'done' } });
+  assert.deepEqual(typingStates(), [true, false]);
+  assert.equal(bob.received.at(-2)?.type, 'userTyping');
+
+  await alice.send({ type: 'typingStarted', payload: { room: DEFAULT_ROOM } });
+  await alice.send({ type: 'joinRoom', payload: { room: 'games' } });
+  assert.deepEqual(typingStates(), [true, false, true, false]);
+
+  // A late notice for the old room is ignored
+  await alice.send({ type: 'typingStarted', payload: { room: DEFAULT_ROOM } });
+  assert.equal(typingStates().length, 4);
+
+  await alice.send({ type: 'typingStarted', payload: { room: 'games' } });
+  await alice.disconnect();
+  assert.deepEqual(typingStates(), [true, false, true, false, true, false]);
+  assert.equal(chat.pendingTimers, 0);
+});
+
+test('setStatus only accepts known statuses', async () => {
+  const chat = createChat();
+  const alice = chat.connect();
+
+  await alice.sendRaw({ type: 'setStatus', payload: { status: 'busy' } });
+
+  assert.equal(alice.lastOfType('error')?.payload.field, 'payload.status');
+  assert.equal(chat.state.users.get(alice.clientId)?.status, 'online');
+});
+
+test('invalid messages are answered with a validation error', async () => {
+  const chat = createChat();
+  const alice = chat.connect();
+
+  await alice.sendRaw({ type: 'sendMessage', payload: {} });
+
+  assert.equal(alice.lastOfType('error')?.payload.code, 'INVALID_MESSAGE');
+  assert.equal(chat.state.messageHistory.size, 0);
+});
+
+test('handleConnect names the user after their verified identity', () => {
+  const chat = createChat();
+
+  const dana = chat.connect({ identity: { userId: 'user-1', claims: { sub: 'user-1', name: 'Dana' } } });
+
+  assert.equal(chat.state.users.get(dana.clientId)?.username, 'Dana');
+});
+
+test('chat history survives a snapshot round-trip', async () => {
+  const chat = createChat();
+  const alice = chat.connect();
+  await alice.send({ type: 'sendMessage', payload: { text: 'remember me' } });
+
+  const snapshot = JSON.parse(JSON.stringify(chatAppLogic.serializeState!(chat.state)));
+  const restored = chatAppLogic.deserializeState!(snapshot);
+
+  assert.ok(restored.messageHistory instanceof Map);
+  assert.equal(restored.messageHistory.get(DEFAULT_ROOM)?.[0]?.text, 'remember me');
+  assert.equal(restored.users.size, 0);
+});
+
+test('restored history is trimmed to the limit and older messages get ids', () => {
+  const logic = createChatAppLogic({ historyLimit: 2 });
+  const legacy = [1, 2, 3].map((n) => ({
+    username: 'Alice',
+    text: `message ${n}`,
+    timestamp: n,
+    clientId: 'client_1',
+    room: DEFAULT_ROOM,
+  }));
+
+  const restored = logic.deserializeState!({ messageHistory: [[DEFAULT_ROOM, legacy]] });
+
+  const history = restored.messageHistory.get(DEFAULT_ROOM)!;
+  assert.deepEqual(
+    history.map((message) => message.text),
+    ['message 2', 'message 3']
+  );
+  assert.ok(history.every((message) => typeof message.id === 'string'));
 });
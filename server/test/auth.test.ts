@@ -0,0 +1,60 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import type { IncomingMessage } from 'node:http';
+import {
+  createTokenAuthenticator,
+  extractToken,
+  signToken,
+  verifyToken,
+} from '../src/auth.js';
+
+const SECRET = 'test-secret';
+
+// An upgrade request and its parsed target, as WSServer hands them over
+function fakeUpgrade(url: string, headers: Record<string, string> = {}) {
+  const request = { url, headers } as unknown as IncomingMessage;
+  return [request, new URL(url, 'http://localhost')] as const;
+}
+
+test('signed tokens round-trip their claims', () => {
+  const token = signToken('user-1', SECRET, { name: 'Ann' });
+  const claims = verifyToken(token, SECRET);
+
+  assert.equal(claims?.sub, 'user-1');
+  assert.equal(claims?.name, 'Ann');
+  assert.ok(claims && claims.exp > claims.iat);
+});
+
+test('verifyToken rejects tampered, foreign and expired tokens', () => {
+  const token = signToken('user-1', SECRET);
+  const [header, , signature] = token.split('.');
+  const forged = Buffer.from(JSON.stringify({ sub: 'admin', iat: 0, exp: 9e9 })).toString(
+    'base64url'
+  );
+
+  assert.equal(verifyToken(`${header}.${forged}.${signature}`, SECRET), null);
+  assert.equal(verifyToken(token, 'other-secret'), null);
+  assert.equal(verifyToken(signToken('user-1', SECRET, {}, -1), SECRET), null);
+  assert.equal(verifyToken('not-a-token', SECRET), null);
+});
+
+test('extractToken reads the query string, subprotocol and cookie', () => {
+  assert.equal(extractToken(...fakeUpgrade('/?token=abc')), 'abc');
+  assert.equal(
+    extractToken(...fakeUpgrade('/', { 'sec-websocket-protocol': 'chat, auth.def' })),
+    'def'
+  );
+  assert.equal(extractToken(...fakeUpgrade('/', { cookie: 'theme=dark; ws_token=ghi' })), 'ghi');
+  assert.equal(extractToken(...fakeUpgrade('/')), null);
+});
+
+test('createTokenAuthenticator maps a valid token to an identity', async () => {
+  const authenticate = createTokenAuthenticator(SECRET);
+  const token = signToken('user-7', SECRET, { role: 'admin' });
+
+  const identity = await authenticate(...fakeUpgrade(`/?token=${token}`));
+  assert.equal(identity?.userId, 'user-7');
+  assert.equal(identity?.claims.role, 'admin');
+
+  assert.equal(await authenticate(...fakeUpgrade('/?token=bogus')), null);
+});
@@ -0,0 +1,90 @@
+import { createServer, type Socket } from 'node:net';
+import { parseReply, type RespValue } from '../src/redisAdapter.js';
+
+/**
+ * Just enough of a Redis server to test RedisAdapter: AUTH, PING,
+ * SUBSCRIBE and PUBLISH, speaking real RESP over TCP
+ */
+export async function startFakeRedis(options: { password?: string } = {}) {
+  const subscriptions = new Map<string, Set<Socket>>();
+  const sockets = new Set<Socket>();
+  const commands: string[] = [];
+
+  const bulk = (value: string | Buffer) => {
+    const bytes = Buffer.from(value);
+    return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from('\r\n')]);
+  };
+
+  const server = createServer((socket) => {
+    sockets.add(socket);
+    let buffer = Buffer.alloc(0);
+    let authenticated = !options.password;
+
+    socket.on('close', () => {
+      sockets.delete(socket);
+      subscriptions.forEach((subscribers) => subscribers.delete(socket));
+    });
+
+    socket.on('data', (chunk) => {
+      buffer = Buffer.concat([buffer, chunk]);
+      let parsed = parseReply(buffer);
+      while (parsed) {
+        buffer = buffer.subarray(parsed.offset);
+        const [name, ...args] = (parsed.value as RespValue[]).map((arg) => arg as Buffer);
+        const command = name.toString().toUpperCase();
+        commands.push(command);
+
+        if (command === 'AUTH') {
+          authenticated = args[0].toString() === options.password;
+          socket.write(authenticated ? '+OK\r\n' : '-WRONGPASS invalid password\r\n');
+        } else if (!authenticated) {
+          socket.write('-NOAUTH Authentication required.\r\n');
+        } else if (command === 'PING') {
+          socket.write('+PONG\r\n');
+        } else if (command === 'SUBSCRIBE') {
+          args.forEach((channel, index) => {
+            const key = channel.toString();
+            if (!subscriptions.has(key)) subscriptions.set(key, new Set());
+            subscriptions.get(key)!.add(socket);
+            socket.write(
+              Buffer.concat([
+                Buffer.from('*3\r\n'),
+                bulk('subscribe'),
+                bulk(key),
+                Buffer.from(`:${index + 1}\r\n`),
+              ])
+            );
+          });
+        } else if (command === 'PUBLISH') {
+          const subscribers = subscriptions.get(args[0].toString()) ?? new Set();
+          subscribers.forEach((subscriber) =>
+            subscriber.write(
+              Buffer.concat([Buffer.from('*3\r\n'), bulk('message'), bulk(args[0]), bulk(args[1])])
+            )
+          );
+          socket.write(`:${subscribers.size}\r\n`);
+        } else {
+          socket.write(`-ERR unknown command '${command}'\r\n`);
+        }
+
+        parsed = buffer.length > 0 ? parseReply(buffer) : null;
+      }
+    });
+  });
+
+  await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+  const address = server.address();
+  if (!address || typeof address === 'string') throw new Error('Failed to start fake Redis');
+
+  return {
+    url: `redis://${options.password ? `:${options.password}@` : ''}127.0.0.1:${address.port}`,
+    commands,
+    connectionCount: () => sockets.size,
+    /** Drop every connection, as if Redis restarted */
+    dropConnections: () => sockets.forEach((socket) => socket.destroy()),
+    close: async () => {
+      sockets.forEach((socket) => socket.destroy());
+      await new Promise<void>((resolve) => server.close(() => resolve()));
+    },
+  };
+}
@@ -0,0 +1,80 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { createServer } from 'node:http';
+import { msgpackCodec } from 'websocket-template-shared';
+import { WSServer } from '../src/wsServer.js';
+import { chatAppLogic } from '../src/appLogic.js';
+import { formatReport, parseOptions, runLoadTest, summarize } from '../src/loadTest.js';
+
+test('summarize reports nearest-rank percentiles', () => {
+  const samples = Array.from({ length: 100 }, (_, i) => 100 - i);
+
+  assert.deepEqual(summarize(samples), { count: 100, mean: 50.5, p50: 50, p90: 90, p99: 99, max: 100 });
+  assert.deepEqual(summarize([]), { count: 0, mean: 0, p50: 0, p90: 0, p99: 0, max: 0 });
+});
+
+test('parseOptions reads seconds and rejects bad numbers', () => {
+  const options = parseOptions(['-c', '20', '--rate', '0.5', '--duration', '3', '--codec', 'msgpack', '--json']);
+
+  assert.equal(options.clients, 20);
+  assert.equal(options.rate, 0.5);
+  assert.equal(options.duration, 3000);
+  assert.equal(options.rampUp, 5000);
+  assert.equal(options.codec, msgpackCodec);
+  assert.equal(options.json, true);
+  assert.throws(() => parseOptions(['--clients', 'lots']), /--clients must be a number/);
+  assert.throws(() => parseOptions(['--codec', 'xml']), /--codec must be json or msgpack/);
+});
+
+test('drives clients through the chat scenario and measures broadcasts', async (t) => {
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as { port: number };
+  const wsServer = new WSServer(httpServer, chatAppLogic, { path: '/ws/chat', middleware: [] });
+  await wsServer.ready();
+  t.after(async () => {
+    await wsServer.close();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  // The chat logic logs every message; keep the test output readable
+  t.mock.method(console, 'log', () => {});
+
+  const report = await runLoadTest({
+    url: `ws://127.0.0.1:${port}/ws/chat`,
+    clients: 4,
+    rate: 10,
+    duration: 500,
+    rampUp: 50,
+    settle: 200,
+    room: 'loadtest',
+    codec: msgpackCodec,
+    token: null,
+  });
+
+  assert.equal(report.connections.opened, 4);
+  assert.equal(report.connections.failed, 0);
+  assert.equal(report.connections.unexpectedDisconnects, 0);
+  assert.ok(report.messages.sent > 0);
+  // Everyone else in the room gets each message
+  assert.equal(report.messages.delivered, report.messages.sent * 3);
+  assert.equal(report.messages.errors, 0);
+  assert.equal(report.latencyMs.count, report.messages.delivered);
+  assert.ok(report.latencyMs.p50 > 0);
+  assert.match(formatReport(report), /Broadcast latency\n {2}p50 /);
+});
+
+test('counts connections that fail to open', async () => {
+  const report = await runLoadTest({
+    ...parseOptions([]),
+    url: 'ws://127.0.0.1:1/ws/chat',
+    clients: 2,
+    duration: 10,
+    rampUp: 0,
+    settle: 0,
+  });
+
+  assert.equal(report.connections.opened, 0);
+  assert.equal(report.connections.failed, 2);
+  assert.equal(report.messages.sent, 0);
+});
@@ -0,0 +1,68 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Counter, Gauge, Histogram, MetricsRegistry } from '../src/metrics.js';
+
+test('renders counters and gauges in the Prometheus text format', () => {
+  const registry = new MetricsRegistry();
+  const messages = registry.register(new Counter('messages_total', 'Messages by type'));
+  const idle = registry.register(new Counter('idle_total', 'Never incremented'));
+  const connections = registry.register(new Gauge('connections', 'Open connections'));
+
+  messages.inc({ type: 'chat' });
+  messages.inc({ type: 'chat' }, 2);
+  messages.inc({ type: 'say "hi"\n' });
+  connections.set(4);
+
+  assert.equal(messages.get({ type: 'chat' }), 3);
+  assert.equal(idle.get(), 0);
+  assert.equal(
+    registry.render(),
+    [
+      '# HELP messages_total Messages by type',
+      '# TYPE messages_total counter',
+      'messages_total{type="chat"} 3',
+      'messages_total{type="say \\"hi\\"\\n"} 1',
+      '# HELP idle_total Never incremented',
+      '# TYPE idle_total counter',
+      'idle_total 0',
+      '# HELP connections Open connections',
+      '# TYPE connections gauge',
+      'connections 4',
+      '',
+    ].join('\n')
+  );
+});
+
+test('histograms count observations into cumulative buckets', () => {
+  const registry = new MetricsRegistry();
+  const duration = registry.register(new Histogram('duration_seconds', 'Latency', [0.1, 1]));
+
+  duration.observe(0.05, { type: 'a' });
+  duration.observe(0.5, { type: 'a' });
+  duration.observe(5, { type: 'a' });
+
+  assert.deepEqual(registry.render().split('\n').slice(2, -1), [
+    'duration_seconds_bucket{type="a",le="0.1"} 1',
+    'duration_seconds_bucket{type="a",le="1"} 2',
+    'duration_seconds_bucket{type="a",le="+Inf"} 3',
+    'duration_seconds_sum{type="a"} 5.55',
+    'duration_seconds_count{type="a"} 3',
+  ]);
+});
+
+test('labeled views record into one series set and total their own share', () => {
+  const registry = new MetricsRegistry();
+  const rejected = registry.register(new Counter('rejected_total', 'Rejections'));
+  const chat = rejected.withLabels({ endpoint: 'chat' });
+  const game = rejected.withLabels({ endpoint: 'game' });
+
+  chat.inc({ reason: 'origin' });
+  chat.inc({ reason: 'capacity' }, 2);
+  game.inc({ reason: 'origin' });
+
+  assert.equal(chat.get({ reason: 'capacity' }), 2);
+  assert.equal(chat.total(), 3);
+  assert.equal(game.total(), 1);
+  assert.equal(rejected.total(), 4);
+  assert.match(registry.render(), /^rejected_total\{endpoint="game",reason="origin"\} 1$/m);
+});
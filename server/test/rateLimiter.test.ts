@@ -0,0 +1,49 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { ClientRateLimiter, TokenBucket } from '../src/rateLimiter.js';
+
+test('token bucket allows a burst, then refills over time', () => {
+  const bucket = new TokenBucket({ burst: 2, perSecond: 4 }, 0);
+
+  assert.equal(bucket.take(0), 0);
+  assert.equal(bucket.take(0), 0);
+  assert.equal(bucket.take(0), 250);
+
+  assert.equal(bucket.take(250), 0);
+  assert.equal(bucket.take(250), 250);
+});
+
+test('per-type limits apply on top of the global one', () => {
+  const limiter = new ClientRateLimiter({
+    global: { burst: 10, perSecond: 10 },
+    perType: { sendMessage: { burst: 1, perSecond: 1 } },
+  });
+
+  assert.equal(limiter.check('sendMessage', 0), 0);
+  assert.equal(limiter.check('sendMessage', 0), 1000);
+  assert.equal(limiter.check('joinRoom', 0), 0);
+  assert.equal(limiter.check(null, 0), 0);
+});
+
+test('rejects limits that can never let a message through', () => {
+  for (const limit of [
+    { burst: 5, perSecond: 0 },
+    { burst: 5, perSecond: -1 },
+    { burst: 5, perSecond: NaN },
+    { burst: 0, perSecond: 1 },
+  ]) {
+    assert.throws(() => new TokenBucket(limit), /Rate limit/);
+    assert.throws(() => new ClientRateLimiter({ perType: { sendMessage: limit } }), /"sendMessage"/);
+  }
+  assert.throws(() => new ClientRateLimiter({ global: { burst: 5, perSecond: 0 } }), /"global"/);
+});
+
+test('violations escalate only when sustained within the window', () => {
+  const limiter = new ClientRateLimiter({ maxViolations: 2, violationWindow: 1000 });
+
+  assert.equal(limiter.recordViolation(0), false);
+  assert.equal(limiter.recordViolation(100), false);
+  assert.equal(limiter.recordViolation(1500), false);
+  assert.equal(limiter.recordViolation(1600), false);
+  assert.equal(limiter.recordViolation(1700), true);
+});
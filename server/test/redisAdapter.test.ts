@@ -0,0 +1,125 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { RedisAdapter, encodeCommand, parseReply } from '../src/redisAdapter.js';
+import type { ClusterEnvelope } from '../src/clusterAdapter.js';
+import { startFakeRedis } from './fakeRedis.js';
+
+test('encodes commands as RESP arrays of bulk strings', () => {
+  assert.equal(
+    encodeCommand(['PUBLISH', 'chan', new Uint8Array([0, 255])]).toString('latin1'),
+    '*3\r\n$7\r\nPUBLISH\r\n$4\r\nchan\r\n$2\r\n\x00\xff\r\n'
+  );
+});
+
+test('parses every RESP reply type and waits for complete data', () => {
+  const reply = Buffer.from('*5\r\n+OK\r\n-ERR nope\r\n:42\r\n$3\r\nabc\r\n$-1\r\n');
+  const parsed = parseReply(reply);
+
+  assert.ok(parsed);
+  assert.equal(parsed.offset, reply.length);
+  const [status, error, count, bulk, nil] = parsed.value as unknown[];
+  assert.equal(status, 'OK');
+  assert.ok(error instanceof Error && error.message === 'ERR nope');
+  assert.equal(count, 42);
+  assert.equal((bulk as Buffer).toString(), 'abc');
+  assert.equal(nil, null);
+
+  for (let end = 0; end < reply.length; end++) {
+    assert.equal(parseReply(reply.subarray(0, end)), null);
+  }
+});
+
+test('delivers published envelopes to every subscribed adapter', async (t) => {
+  const redis = await startFakeRedis({ password: 's3cret' });
+  const first = new RedisAdapter({ url: redis.url });
+  const second = new RedisAdapter({ url: redis.url });
+  t.after(async () => {
+    first.close();
+    second.close();
+    await redis.close();
+  });
+
+  const received: ClusterEnvelope[] = [];
+  await first.subscribe(() => {});
+  await second.subscribe((envelope) => received.push(envelope));
+
+  const envelope: ClusterEnvelope = {
+    origin: 'node_a',
+    kind: 'sendTo',
+    clientId: 'client_1',
+    message: { type: 'systemMessage', payload: { text: 'hi' } },
+  };
+  first.publish(envelope);
+
+  await waitFor(() => received.length === 1);
+  assert.deepEqual(received[0], envelope);
+  assert.ok(redis.commands.includes('AUTH'));
+});
+
+test('resubscribes after the connection drops', async (t) => {
+  const redis = await startFakeRedis();
+  const adapter = new RedisAdapter({ url: redis.url, reconnectDelay: 10 });
+  t.after(async () => {
+    adapter.close();
+    await redis.close();
+  });
+
+  const received: ClusterEnvelope[] = [];
+  await adapter.subscribe((envelope) => received.push(envelope));
+
+  redis.dropConnections();
+  await waitFor(() => redis.commands.filter((command) => command === 'SUBSCRIBE').length === 2);
+  await waitFor(() => redis.connectionCount() === 2);
+
+  adapter.publish({
+    origin: 'node_a',
+    kind: 'broadcastAll',
+    message: { type: 'pong', payload: { timestamp: 1 } },
+  });
+  await waitFor(() => received.length === 1);
+});
+
+test('keeps the subscription when the envelope handler throws', async (t) => {
+  const redis = await startFakeRedis();
+  const adapter = new RedisAdapter({ url: redis.url, reconnectDelay: 10 });
+  t.after(async () => {
+    adapter.close();
+    await redis.close();
+  });
+
+  const received: ClusterEnvelope[] = [];
+  await adapter.subscribe((envelope) => {
+    received.push(envelope);
+    if (received.length === 1) throw new Error('handler bug');
+  });
+
+  const envelope: ClusterEnvelope = {
+    origin: 'node_a',
+    kind: 'broadcastAll',
+    message: { type: 'pong', payload: { timestamp: 1 } },
+  };
+  adapter.publish(envelope);
+  adapter.publish(envelope);
+
+  await waitFor(() => received.length === 2);
+  assert.equal(redis.commands.filter((command) => command === 'SUBSCRIBE').length, 1);
+});
+
+test('rejects subscribe when Redis is unreachable', async (t) => {
+  const redis = await startFakeRedis();
+  const url = redis.url;
+  await redis.close();
+
+  const adapter = new RedisAdapter({ url, reconnectDelay: 10, connectTimeout: 100 });
+  t.after(() => adapter.close());
+
+  await assert.rejects(adapter.subscribe(() => {}), /did not confirm the subscription/);
+});
+
+async function waitFor(condition: () => boolean, timeoutMs = 2000): Promise<void> {
+  const deadline = Date.now() + timeoutMs;
+  while (!condition()) {
+    if (Date.now() > deadline) throw new Error('Timed out waiting for condition');
+    await new Promise((resolve) => setTimeout(resolve, 5));
+  }
+}
@@ -0,0 +1,108 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { Scheduler, TickLoop } from '../src/scheduler.js';
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+test('one-shot timers fire once and can be cancelled', async () => {
+  const scheduler = new Scheduler();
+  const fired: string[] = [];
+
+  scheduler.setTimer(5, () => {
+    fired.push('a');
+  });
+  const cancelled = scheduler.setTimer(5, () => {
+    fired.push('b');
+  });
+  assert.equal(scheduler.clearTimer(cancelled), true);
+  assert.equal(scheduler.size, 1);
+
+  await sleep(30);
+  assert.deepEqual(fired, ['a']);
+  assert.equal(scheduler.size, 0);
+  assert.equal(scheduler.clearTimer(cancelled), false);
+});
+
+test('repeating timers run until cleared, and failures are contained', async () => {
+  const scheduler = new Scheduler();
+  let runs = 0;
+
+  const timerId = scheduler.setRepeatingTimer(5, () => {
+    runs++;
+  });
+  scheduler.setTimer(1, async () => {
+    throw new Error('boom');
+  });
+
+  await sleep(40);
+  scheduler.clearTimer(timerId);
+  const stoppedAt = runs;
+  assert.ok(stoppedAt >= 3, `expected at least 3 runs, got ${stoppedAt}`);
+
+  await sleep(20);
+  assert.equal(runs, stoppedAt);
+});
+
+test('repeating timers need a positive interval', () => {
+  const scheduler = new Scheduler();
+
+  for (const interval of [0, -5, NaN]) {
+    assert.throws(() => scheduler.setRepeatingTimer(interval, () => {}), /must be positive/);
+  }
+  assert.equal(scheduler.size, 0);
+});
+
+test('clearAll cancels every pending timer', async () => {
+  const scheduler = new Scheduler();
+  let runs = 0;
+
+  scheduler.setTimer(5, () => {
+    runs++;
+  });
+  scheduler.setRepeatingTimer(5, () => {
+    runs++;
+  });
+  scheduler.clearAll();
+
+  await sleep(20);
+  assert.equal(runs, 0);
+  assert.equal(scheduler.size, 0);
+});
+
+test('tick loop runs at its rate and reports elapsed time', async () => {
+  const deltas: number[] = [];
+  const loop = new TickLoop(100, (dt) => deltas.push(dt));
+
+  loop.start();
+  await sleep(205);
+  loop.stop();
+  const ticks = deltas.length;
+
+  // 10ms ticks: drift compensation keeps the count close to 20
+  assert.ok(ticks >= 15 && ticks <= 21, `expected about 20 ticks, got ${ticks}`);
+  assert.ok(deltas.every((dt) => dt > 0));
+
+  await sleep(30);
+  assert.equal(deltas.length, ticks);
+});
+
+test('tick loop resynchronizes instead of bursting after a stall', async () => {
+  const deltas: number[] = [];
+  const loop = new TickLoop(100, (dt) => {
+    deltas.push(dt);
+    if (deltas.length === 1) {
+      // Block the event loop for five ticks' worth
+      const until = performance.now() + 50;
+      while (performance.now() < until);
+    }
+  });
+
+  loop.start();
+  await sleep(100);
+  loop.stop();
+
+  // Without resync the four missed ticks would fire back to back right after the stall
+  const burst = deltas.slice(1).filter((dt) => dt < 2).length;
+  assert.ok(burst <= 1, `expected no catch-up burst, got ${burst} near-zero ticks`);
+  assert.ok(deltas[1] >= 50);
+});
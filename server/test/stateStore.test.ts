@@ -0,0 +1,57 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { mkdtemp, readdir, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import { FileStateStore, SqliteStateStore, type StateStore } from '../src/stateStore.js';
+
+const sqliteSupported = await SqliteStateStore.isSupported();
+
+async function withTempDir(run: (dir: string) => Promise<void>) {
+  const dir = await mkdtemp(join(tmpdir(), 'ws-state-'));
+  try {
+    await run(dir);
+  } finally {
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+async function assertRoundTrip(store: StateStore) {
+  assert.equal(await store.load(), null);
+
+  await store.save({ version: 1, savedAt: 1, state: { count: 1 } });
+  await store.save({ version: 1, savedAt: 2, state: { count: 2, rooms: [['lobby', []]] } });
+
+  assert.deepEqual(await store.load(), {
+    version: 1,
+    savedAt: 2,
+    state: { count: 2, rooms: [['lobby', []]] },
+  });
+}
+
+test('file store keeps the latest snapshot', async () => {
+  await withTempDir(async (dir) => {
+    const store = new FileStateStore(join(dir, 'nested', 'state.json'));
+    await assertRoundTrip(store);
+
+    // The temporary file is renamed into place, never left behind
+    assert.deepEqual(await readdir(join(dir, 'nested')), ['state.json']);
+  });
+});
+
+// Only skip where node:sqlite can't be there, so a broken store fails on Node 22.13+
+const [major, minor] = process.versions.node.split('.').map(Number);
+const sqliteExpected = major > 22 || (major === 22 && minor >= 13);
+const sqliteSkip =
+  sqliteSupported || sqliteExpected ? false : 'node:sqlite needs Node 22.13+ (22.5+ with --experimental-sqlite)';
+
+test('sqlite store keeps the latest snapshot', { skip: sqliteSkip }, async () => {
+  await withTempDir(async (dir) => {
+    const store = new SqliteStateStore(join(dir, 'state.db'));
+    try {
+      await assertRoundTrip(store);
+    } finally {
+      await store.close();
+    }
+  });
+});
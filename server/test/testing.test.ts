@@ -0,0 +1,222 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { TestHarness } from '../src/testing.js';
+import type { AppLogic } from '../src/types.js';
+
+interface CountdownState {
+  ticks: number;
+  elapsed: number;
+  rings: number;
+  shutDown: boolean;
+}
+
+// Exercises the parts of the harness the chat demo doesn't use
+const countdownLogic: AppLogic<CountdownState> = {
+  createInitialState: () => ({ ticks: 0, elapsed: 0, rings: 0, shutDown: false }),
+  handleConnect: () => {},
+  handleDisconnect: () => {},
+  handleTick: (state, dt) => {
+    state.ticks++;
+    state.elapsed += dt;
+  },
+  handleMessage: async (state, { message, helpers, reply }) => {
+    if (message.type !== 'sendMessage') return;
+    const { text } = message.payload;
+
+    if (text.startsWith('alarm:')) {
+      // 'alarm:<ms>' rings everyone once the delay has passed
+      helpers.setTimer(Number(text.slice(6)), () => {
+        state.rings++;
+        helpers.broadcastAll({ type: 'systemMessage', payload: { text: 'ring' } });
+      });
+    } else if (text.startsWith('slow:')) {
+      await new Promise((resolve) => setTimeout(resolve, Number(text.slice(5))));
+      reply({ type: 'systemMessage', payload: { text } });
+    } else if (text === 'throw') {
+      throw new Error('handler blew up');
+    } else {
+      reply({ type: 'systemMessage', payload: { text } });
+    }
+  },
+  handleShutdown: (state) => {
+    state.shutDown = true;
+  },
+};
+
+test('runs timers and ticks on the virtual clock', async () => {
+  const harness = new TestHarness(countdownLogic, { tickRate: 10 });
+  const [alice, bob] = harness.connectMany(2);
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'alarm:250' } });
+  assert.equal(harness.pendingTimers, 1);
+
+  await harness.advance(249);
+  assert.equal(harness.state.rings, 0);
+  assert.equal(harness.state.ticks, 2);
+
+  await harness.advance(1);
+  assert.equal(harness.state.rings, 1);
+  assert.equal(bob.lastMessage()?.type, 'systemMessage');
+  assert.equal(harness.pendingTimers, 0);
+
+  await harness.advance(750);
+  assert.equal(harness.state.ticks, 10);
+  assert.equal(harness.state.elapsed, 1000);
+  assert.equal(harness.now, 1000);
+});
+
+test('handles each client in order and turns failures into internal errors', async () => {
+  const harness = new TestHarness(countdownLogic, { tickRate: 0 });
+  const alice = harness.connect();
+
+  const slow = alice.send({ type: 'sendMessage', payload: { text: 'slow:30' } });
+  const fast = alice.send({ type: 'sendMessage', payload: { text: 'fast' } });
+  await Promise.all([slow, fast]);
+  assert.deepEqual(
+    alice.ofType('systemMessage').map((message) => message.payload.text),
+    ['slow:30', 'fast']
+  );
+
+  const [reply] = await alice.request({ type: 'sendMessage', payload: { text: 'throw' } });
+  assert.equal(reply.type, 'error');
+  assert.equal(reply.type === 'error' && reply.payload.code, 'INTERNAL_ERROR');
+});
+
+test('runs middleware in both directions', async () => {
+  const harness = new TestHarness(countdownLogic, {
+    tickRate: 0,
+    middleware: [
+      {
+        inbound: async (context, next) => {
+          if (context.message.type === 'sendMessage' && context.message.payload.text === 'secret') {
+            return context.replyError('Not allowed', 'FORBIDDEN');
+          }
+          context.locals.seen = true;
+          await next();
+        },
+        outbound: (message, { locals }) =>
+          message.type === 'systemMessage' && locals.seen
+            ? { ...message, payload: { text: message.payload.text.toUpperCase() } }
+            : message,
+      },
+    ],
+  });
+  const alice = harness.connect();
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'secret' } });
+  assert.equal(alice.lastOfType('error')?.payload.code, 'FORBIDDEN');
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'hello' } });
+  assert.equal(alice.lastOfType('systemMessage')?.payload.text, 'HELLO');
+});
+
+test('rejects a middleware that calls next() twice', async () => {
+  const harness = new TestHarness(countdownLogic, {
+    tickRate: 0,
+    middleware: [
+      {
+        name: 'twice',
+        inbound: async (_context, next) => {
+          await next();
+          await next();
+        },
+      },
+    ],
+  });
+  const alice = harness.connect();
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'hello' } });
+
+  assert.equal(alice.ofType('systemMessage').length, 1);
+  assert.equal(alice.lastOfType('error')?.payload.code, 'INTERNAL_ERROR');
+});
+
+test('rejects repeating timers without a positive interval', async () => {
+  const harness = new TestHarness(
+    {
+      ...countdownLogic,
+      handleMessage: (_state, { helpers }) => {
+        helpers.setRepeatingTimer(0, () => {});
+      },
+    },
+    { tickRate: 0 }
+  );
+  const alice = harness.connect();
+
+  await alice.send({ type: 'sendMessage', payload: { text: 'go' } });
+
+  assert.equal(alice.lastOfType('error')?.payload.code, 'INTERNAL_ERROR');
+  assert.equal(harness.pendingTimers, 0);
+});
+
+test('runs handleDisconnect only after the messages sent before leaving', async () => {
+  // Same scenario as the WSServer test of the same name
+  const events: string[] = [];
+  const harness = new TestHarness(
+    {
+      ...countdownLogic,
+      handleMessage: async (state, { reply }) => {
+        await new Promise((resolve) => setTimeout(resolve, 100));
+        events.push('message done');
+        state.rings++;
+        reply({ type: 'systemMessage', payload: { text: 'done' } });
+      },
+      handleDisconnect: (state) => {
+        events.push('disconnect');
+        state.rings--;
+      },
+    },
+    { tickRate: 0 }
+  );
+  const alice = harness.connect();
+
+  const sent = alice.send({ type: 'sendMessage', payload: { text: 'hi' } });
+  await alice.disconnect();
+  await sent;
+
+  assert.deepEqual(events, ['message done', 'disconnect']);
+  assert.equal(harness.state.rings, 0);
+  // The reply went to a socket that was already closed
+  assert.equal(alice.ofType('systemMessage').length, 0);
+});
+
+test('runs handleSuspend and handleResume after earlier messages', async () => {
+  const events: string[] = [];
+  const harness = new TestHarness(
+    {
+      ...countdownLogic,
+      handleMessage: async () => {
+        await new Promise((resolve) => setTimeout(resolve, 50));
+        events.push('message done');
+      },
+      handleSuspend: () => {
+        events.push('suspend');
+      },
+      handleResume: () => {
+        events.push('resume');
+      },
+    },
+    { tickRate: 0 }
+  );
+  const alice = harness.connect();
+
+  const sent = alice.send({ type: 'sendMessage', payload: { text: 'hi' } });
+  const suspended = alice.suspend();
+  await alice.resume();
+  await Promise.all([sent, suspended]);
+
+  assert.deepEqual(events, ['message done', 'suspend', 'resume']);
+});
+
+test('shutdown runs handleShutdown and disconnects everyone', async () => {
+  const harness = new TestHarness(countdownLogic, { tickRate: 0 });
+  const alice = harness.connect();
+  await alice.send({ type: 'sendMessage', payload: { text: 'alarm:1000' } });
+
+  await harness.shutdown();
+
+  assert.equal(harness.state.shutDown, true);
+  assert.equal(alice.connectionStatus, 'disconnected');
+  assert.equal(harness.pendingTimers, 0);
+  await assert.rejects(alice.send({ type: 'sendMessage', payload: { text: 'hi' } }), /disconnected/);
+});
@@ -1,54 +1,105 @@
 import test from 'node:test';
 import assert from 'node:assert/strict';
 import { createServer } from 'node:http';
+import { connect } from 'node:net';
+import { EventEmitter } from 'node:events';
+import { mkdtemp, rm } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { WebSocket } from 'ws';
-import { WSServer } from '../src/wsServer.js';
+import {
+  PROTOCOL_VERSION,
+  findCodec,
+  jsonCodec,
+  msgpackCodec,
+  type Codec,
+} from 'websocket-template-shared';
+import { WSServer, type WSServerOptions } from '../src/wsServer.js';
+import { createTokenAuthenticator, signToken } from '../src/auth.js';
+import { InMemoryAdapter } from '../src/clusterAdapter.js';
+import { RedisAdapter } from '../src/redisAdapter.js';
+import { startFakeRedis } from './fakeRedis.js';
+import { FileStateStore } from '../src/stateStore.js';
+import { createServerMetrics } from '../src/metrics.js';
 import type {
   AppLogic,
   ClientMessage,
   MessageContext,
   MessageHelpers,
+  ServerFrame,
   ServerMessage,
 } from '../src/types.js';
 
 interface TestState {
   connections: string[];
+  suspended: string[];
+  resumed: string[];
+  userIds: (string | null)[];
+  helpers: MessageHelpers | null;
 }
 
 // Minimal app logic for exercising WSServer plumbing
 const testAppLogic: AppLogic<TestState> = {
-  createInitialState: () => ({ connections: [] }),
+  createInitialState: () => ({
+    connections: [],
+    suspended: [],
+    resumed: [],
+    userIds: [],
+    helpers: null,
+  }),
 
-  handleConnect: (state, clientId, helpers) => {
+  handleConnect: (state, clientId, helpers, identity) => {
+    state.helpers = helpers;
     state.connections.push(clientId);
-    helpers.sendTo(clientId, { type: 'welcome', payload: { clientId } });
+    state.userIds.push(identity?.userId ?? null);
   },
 
   handleDisconnect: (state, clientId) => {
     state.connections = state.connections.filter((id) => id !== clientId);
   },
 
-  handleMessage: (_state, context: MessageContext) => {
+  handleSuspend: (state, clientId) => {
+    state.suspended.push(clientId);
+  },
+
+  handleResume: (state, clientId) => {
+    state.resumed.push(clientId);
+  },
+
+  handleMessage: async (_state, context: MessageContext) => {
     const { message, helpers, clientId } = context;
-    if (message.type === 'sendMessage') {
+    if (message.type === 'sendMessage' && message.payload.text.startsWith('wait:')) {
+      // 'wait:<ms>' answers the sender after a delay, like a slow database call
+      await new Promise((resolve) => setTimeout(resolve, Number(message.payload.text.slice(5))));
+      context.reply({ type: 'systemMessage', payload: { text: `done:${message.payload.text}` } });
+    } else if (message.type === 'sendMessage' && message.payload.text === 'throw') {
+      throw new Error('handler blew up');
+    } else if (message.type === 'sendMessage') {
       helpers.broadcastAll({
         type: 'systemMessage',
         payload: { text: `echo:${message.payload.text}` },
       });
-    } else {
-      helpers.sendTo(clientId, {
-        type: 'error',
-        payload: { message: 'Unknown message type' },
+    } else if (message.type === 'joinRoom') {
+      helpers.joinRoom(clientId, message.payload.room);
+      helpers.broadcastToRoom(message.payload.room, {
+        type: 'systemMessage',
+        payload: { text: `joined:${message.payload.room}` },
       });
+    } else if (message.type === 'setUsername') {
+      const from = context.identity?.userId ?? message.payload.username;
+      context.reply({ type: 'systemMessage', payload: { text: `hello:${from}` } });
+    } else {
+      context.replyError('Unknown message type', 'UNSUPPORTED');
     }
   },
 };
 
-async function startTestServer() {
+async function startTestServer(options: WSServerOptions = {}, appLogic = testAppLogic) {
   const httpServer = createServer();
   await new Promise<void>((resolve) => httpServer.listen(0, resolve));
 
-  const wsServer = new WSServer<TestState>(httpServer, testAppLogic);
+  const wsServer = new WSServer<TestState>(httpServer, appLogic, options);
+  await wsServer.ready();
   const address = httpServer.address();
   if (!address || typeof address === 'string') {
     throw new Error('Failed to acquire server address');
@@ -57,13 +108,13 @@ async function startTestServer() {
   const port = address.port;
 
   const close = async () => {
-    wsServer.close();
+    await wsServer.close();
     await new Promise<void>((resolve, reject) => {
       httpServer.close((err) => (err ? reject(err) : resolve()));
     });
   };
 
-  return { port, close };
+  return { port, close, wsServer, getState: () => (wsServer as any).state as TestState };
 }
 
 type ClientHandle = {
@@ -72,14 +123,27 @@ type ClientHandle = {
   close: () => Promise<void>;
 };
 
-async function connectClient(port: number): Promise<ClientHandle> {
-  const ws = new WebSocket(`ws://127.0.0.1:${port}`);
+async function connectClient(
+  port: number,
+  options: ConstructorParameters<typeof WebSocket>[2] = {},
+  query = '',
+  protocols: string[] = []
+): Promise<ClientHandle> {
+  const ws = new WebSocket(`ws://127.0.0.1:${port}/${query}`, protocols, options);
 
   // Queue messages immediately to avoid missing early frames
   const queue: ServerMessage[] = [];
-  ws.on('message', (data) => {
+  const waiters: ((message: ServerMessage) => void)[] = [];
+  ws.on('message', (data: Buffer, isBinary) => {
     try {
-      queue.push(JSON.parse(data.toString()) as ServerMessage);
+      const codec = findCodec(ws.protocol) ?? jsonCodec;
+      const message = codec.decode(isBinary ? data : data.toString()) as ServerMessage;
+      const waiter = waiters.shift();
+      if (waiter) {
+        waiter(message);
+      } else {
+        queue.push(message);
+      }
     } catch (err) {
       // ignore parse errors in test harness
     }
@@ -95,26 +159,22 @@ async function connectClient(port: number): Promise<ClientHandle> {
         return resolve(queue.shift() as ServerMessage);
       }
 
-      const timeout = setTimeout(() => reject(new Error('Timed out waiting for message')), timeoutMs);
-
-      const handleMessage = (data: any) => {
+      const waiter = (message: ServerMessage) => {
         clearTimeout(timeout);
-        try {
-          resolve(JSON.parse(data.toString()) as ServerMessage);
-        } catch (err) {
-          reject(err);
-        }
+        resolve(message);
       };
 
-      ws.once('message', handleMessage);
-      ws.once('error', (err) => {
-        clearTimeout(timeout);
-        reject(err);
-      });
+      const timeout = setTimeout(() => {
+        waiters.splice(waiters.indexOf(waiter), 1);
+        reject(new Error('Timed out waiting for message'));
+      }, timeoutMs);
+
+      waiters.push(waiter);
     });
 
   const close = async () =>
     new Promise<void>((resolve) => {
+      if (ws.readyState === WebSocket.CLOSED) return resolve();
       ws.once('close', () => resolve());
       ws.close();
     });
@@ -170,3 +230,1226 @@ test('broadcastAll reaches all connected clients', async (t) => {
   assert.equal(msg1.payload.text, 'echo:hi');
   assert.equal(msg2.payload.text, 'echo:hi');
 });
+
+test('broadcastToRoom only reaches room members', async (t) => {
+  const { port, close } = await startTestServer();
+  const client1 = await connectClient(port);
+  const client2 = await connectClient(port);
+
+  t.after(async () => {
+    await client1.close();
+    await client2.close();
+    await close();
+  });
+
+  await client1.nextMessage();
+  await client2.nextMessage();
+
+  client1.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'red' } }));
+  const joinedRed = await client1.nextMessage();
+  assert.equal(joinedRed.type, 'systemMessage');
+  assert.equal(joinedRed.payload.text, 'joined:red');
+
+  client2.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'blue' } }));
+  const joinedBlue = await client2.nextMessage();
+  assert.equal(joinedBlue.payload.text, 'joined:blue');
+
+  // client1 must not have received the blue room broadcast
+  await assert.rejects(client1.nextMessage(200), /Timed out/);
+});
+
+test('closing a socket removes the client from its rooms', async (t) => {
+  const { port, close, wsServer } = await startTestServer();
+  const client1 = await connectClient(port);
+  const client2 = await connectClient(port);
+
+  t.after(async () => {
+    await client2.close();
+    await close();
+  });
+
+  await client1.nextMessage();
+  await client2.nextMessage();
+
+  client1.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'red' } }));
+  client2.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'blue' } }));
+  await client1.nextMessage();
+  await client2.nextMessage();
+  assert.equal(wsServer.getRoomCount(), 2);
+
+  await client1.close();
+  // Give the server a moment to process the close frame
+  await new Promise((resolve) => setTimeout(resolve, 50));
+
+  assert.equal(wsServer.getRoomCount(), 1);
+  assert.equal(wsServer.getClientCount(), 1);
+});
+
+test('rejects frames that are not valid JSON', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send('not json');
+
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'error');
+  assert.equal(reply.payload.code, 'INVALID_JSON');
+});
+
+test('keeps per-client message order while other clients run concurrently', async (t) => {
+  const { port, close } = await startTestServer();
+  const slow = await connectClient(port);
+  const fast = await connectClient(port);
+
+  t.after(async () => {
+    await slow.close();
+    await fast.close();
+    await close();
+  });
+
+  await slow.nextMessage();
+  await fast.nextMessage();
+
+  const send = (client: ClientHandle, text: string) =>
+    client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text } }));
+
+  send(slow, 'wait:150');
+  send(slow, 'wait:0');
+  send(fast, 'wait:0');
+
+  // The other client isn't held up by the slow handler
+  const fastReply = await fast.nextMessage();
+  assert.deepEqual(fastReply.payload, { text: 'done:wait:0' });
+
+  // The sender's second message waits for its first
+  assert.deepEqual((await slow.nextMessage()).payload, { text: 'done:wait:150' });
+  assert.deepEqual((await slow.nextMessage()).payload, { text: 'done:wait:0' });
+});
+
+test('reports handler failures as internal errors', async (t) => {
+  const { port, close, wsServer } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(
+    JSON.stringify({ type: 'sendMessage', payload: { text: 'throw' }, requestId: 'req-1' })
+  );
+
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'error');
+  assert.equal(reply.payload.code, 'INTERNAL_ERROR');
+  assert.equal((reply as ServerFrame).requestId, 'req-1');
+  assert.equal(wsServer.getHandlerErrorCount(), 1);
+
+  // The queue keeps going after a failure
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'wait:0' } }));
+  assert.deepEqual((await client.nextMessage()).payload, { text: 'done:wait:0' });
+});
+
+test('middleware can transform, reject and decorate messages', async (t) => {
+  const calls: string[] = [];
+  const { port, close, wsServer } = await startTestServer({ middleware: [] });
+  wsServer
+    .use({
+      name: 'filter',
+      inbound: async (context, next) => {
+        calls.push('filter');
+        const { message } = context;
+        if (message.type === 'sendMessage' && message.payload.text.includes('darn')) {
+          context.replyError('Watch your language', 'PROFANITY');
+          return;
+        }
+        if (message.type === 'sendMessage') {
+          context.message = { ...message, payload: { text: message.payload.text.toUpperCase() } };
+        }
+        context.locals.lastType = message.type;
+        await next();
+      },
+    })
+    .use({
+      name: 'tagger',
+      inbound: async (_context, next) => {
+        calls.push('tagger');
+        await next();
+      },
+      outbound: (message, context) => {
+        if (message.type !== 'systemMessage') return message;
+        return {
+          ...message,
+          payload: { text: `${message.payload.text}|after:${String(context.locals.lastType)}` },
+        };
+      },
+    });
+
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'hi' } }));
+  assert.deepEqual((await client.nextMessage()).payload, { text: 'echo:HI|after:sendMessage' });
+  assert.deepEqual(calls, ['filter', 'tagger']);
+
+  // Short-circuited messages never reach later middleware or app logic
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'darn it' } }));
+  const rejected = await client.nextMessage();
+  assert.equal(rejected.type, 'error');
+  assert.equal(rejected.payload.code, 'PROFANITY');
+  assert.deepEqual(calls, ['filter', 'tagger', 'filter']);
+});
+
+test('outbound middleware can skip a recipient', async (t) => {
+  const { port, close, wsServer } = await startTestServer();
+  const muted = await connectClient(port);
+  const listener = await connectClient(port);
+
+  t.after(async () => {
+    await muted.close();
+    await listener.close();
+    await close();
+  });
+
+  const mutedId = (await muted.nextMessage()).payload.clientId;
+  await listener.nextMessage();
+
+  wsServer.use({
+    outbound: (message, { clientId }) =>
+      clientId === mutedId && message.type === 'systemMessage' ? null : message,
+  });
+
+  muted.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'one' } }));
+  assert.deepEqual((await listener.nextMessage()).payload, { text: 'echo:one' });
+  await assert.rejects(muted.nextMessage(200), /Timed out/);
+});
+
+test('records traffic in the Prometheus metrics', async (t) => {
+  const { port, close, wsServer } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'hi' } }));
+  await client.nextMessage();
+  client.ws.send('not json');
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'throw' } }));
+  await client.nextMessage();
+
+  const metrics = wsServer.renderMetrics();
+  assert.match(metrics, /^ws_connections 1$/m);
+  assert.match(metrics, /^ws_connections_total 1$/m);
+  assert.match(metrics, /^ws_messages_received_total\{type="sendMessage"\} 2$/m);
+  assert.match(metrics, /^ws_messages_sent_total\{type="welcome"\} 1$/m);
+  assert.match(metrics, /^ws_messages_sent_total\{type="systemMessage"\} 1$/m);
+  assert.match(metrics, /^ws_message_errors_total\{reason="parse"\} 1$/m);
+  assert.match(metrics, /^ws_message_errors_total\{reason="handler"\} 1$/m);
+  assert.match(metrics, /^ws_handler_duration_seconds_count\{type="sendMessage"\} 2$/m);
+  assert.match(metrics, /^ws_received_bytes_total [1-9]\d*$/m);
+  assert.match(metrics, /^ws_sent_bytes_total [1-9]\d*$/m);
+
+  await client.close();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  assert.match(wsServer.renderMetrics(), /^ws_disconnects_total\{code="1005"\} 1$/m);
+});
+
+test('rejects messages with a missing payload', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'sendMessage' }));
+
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'error');
+  assert.equal(reply.payload.code, 'INVALID_MESSAGE');
+  assert.equal(reply.payload.field, 'payload');
+});
+
+test('rejects payload fields that are missing or have the wrong type', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: {} }));
+  const missing = await client.nextMessage();
+  assert.equal(missing.type, 'error');
+  assert.equal(missing.payload.field, 'payload.text');
+
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 42 } }));
+  const wrongType = await client.nextMessage();
+  assert.equal(wrongType.type, 'error');
+  assert.equal(wrongType.payload.field, 'payload.text');
+  assert.match(wrongType.payload.message, /Expected string, got number/);
+});
+
+test('rejects unknown message types before they reach app logic', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'launchRockets', payload: {} }));
+
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'error');
+  assert.equal(reply.payload.code, 'INVALID_MESSAGE');
+  assert.equal(reply.payload.field, 'type');
+  assert.match(reply.payload.message, /launchRockets/);
+});
+
+test('terminates clients that stop answering heartbeats', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer({
+    heartbeatInterval: 50,
+    heartbeatTimeout: 50,
+    resumeGracePeriod: 0,
+  });
+  // autoPong: false simulates a half-open connection that never answers pings
+  const silent = await connectClient(port, { autoPong: false });
+  const healthy = await connectClient(port);
+
+  t.after(async () => {
+    await silent.close();
+    await healthy.close();
+    await close();
+  });
+
+  await silent.nextMessage();
+  await healthy.nextMessage();
+
+  await new Promise<void>((resolve) => silent.ws.once('close', () => resolve()));
+  // Give the server a moment to run its own close handler
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assert.equal(wsServer.getClientCount(), 1);
+  assert.equal(getState().connections.length, 1);
+  assert.equal(healthy.ws.readyState, WebSocket.OPEN);
+});
+
+test('answers application-level pings without involving app logic', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'ping', payload: { timestamp: 123 } }));
+
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'pong');
+  assert.equal(reply.payload.timestamp, 123);
+});
+
+/**
+ * Drop the TCP connection without a close frame, like a phone losing signal
+ */
+async function dropConnection(client: ClientHandle) {
+  await new Promise<void>((resolve) => {
+    client.ws.once('close', () => resolve());
+    client.ws.terminate();
+  });
+  // Give the server a moment to notice the drop
+  await new Promise((resolve) => setTimeout(resolve, 20));
+}
+
+test('welcome carries the protocol version and a resume token', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  const welcome = await client.nextMessage();
+  assert.equal(welcome.type, 'welcome');
+  if (welcome.type !== 'welcome') return;
+  assert.equal(welcome.payload.protocolVersion, PROTOCOL_VERSION);
+  assert.equal(welcome.payload.resumed, false);
+  assert.ok(welcome.payload.resumeToken);
+});
+
+test('a dropped client resumes its session and receives missed messages', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer();
+  const client = await connectClient(port);
+  const other = await connectClient(port);
+
+  t.after(async () => {
+    await other.close();
+    await close();
+  });
+
+  const welcome = await client.nextMessage();
+  await other.nextMessage();
+  if (welcome.type !== 'welcome') throw new Error('expected welcome');
+
+  await dropConnection(client);
+  assert.equal(wsServer.getClientCount(), 1);
+  assert.equal(wsServer.getSuspendedCount(), 1);
+  assert.deepEqual(getState().suspended, [welcome.payload.clientId]);
+
+  // Broadcast while the client is away
+  other.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'missed' } }));
+  await other.nextMessage();
+
+  const resumed = await connectClient(
+    port,
+    {},
+    `?resumeToken=${encodeURIComponent(welcome.payload.resumeToken)}`
+  );
+  t.after(() => resumed.close());
+
+  const rewelcome = await resumed.nextMessage();
+  assert.equal(rewelcome.type, 'welcome');
+  if (rewelcome.type !== 'welcome') return;
+  assert.equal(rewelcome.payload.clientId, welcome.payload.clientId);
+  assert.equal(rewelcome.payload.resumed, true);
+  assert.notEqual(rewelcome.payload.resumeToken, welcome.payload.resumeToken);
+
+  const replayed = await resumed.nextMessage();
+  assert.equal(replayed.type, 'systemMessage');
+  assert.equal(replayed.payload.text, 'echo:missed');
+
+  assert.deepEqual(getState().resumed, [welcome.payload.clientId]);
+  assert.equal(getState().connections.length, 2);
+  assert.equal(wsServer.getSuspendedCount(), 0);
+});
+
+test('a suspended session ends for good after the grace period', async (t) => {
+  const { port, close, getState } = await startTestServer({ resumeGracePeriod: 50 });
+  const client = await connectClient(port);
+
+  t.after(close);
+
+  const welcome = await client.nextMessage();
+  if (welcome.type !== 'welcome') throw new Error('expected welcome');
+
+  await dropConnection(client);
+  assert.equal(getState().connections.length, 1);
+
+  await new Promise((resolve) => setTimeout(resolve, 80));
+  assert.equal(getState().connections.length, 0);
+
+  // The old token no longer resumes anything
+  const late = await connectClient(
+    port,
+    {},
+    `?resumeToken=${encodeURIComponent(welcome.payload.resumeToken)}`
+  );
+  t.after(() => late.close());
+
+  const lateWelcome = await late.nextMessage();
+  assert.equal(lateWelcome.type, 'welcome');
+  if (lateWelcome.type !== 'welcome') return;
+  assert.equal(lateWelcome.payload.resumed, false);
+  assert.notEqual(lateWelcome.payload.clientId, welcome.payload.clientId);
+});
+
+test('a clean close ends the session immediately', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(close);
+
+  await client.nextMessage();
+  await client.close();
+  await new Promise((resolve) => setTimeout(resolve, 20));
+
+  assert.equal(wsServer.getSuspendedCount(), 0);
+  assert.equal(getState().connections.length, 0);
+  assert.deepEqual(getState().suspended, []);
+});
+
+test('runs handleDisconnect only after the messages sent before leaving', async (t) => {
+  const events: string[] = [];
+  const { port, close, wsServer, getState } = await startTestServer({}, {
+    ...testAppLogic,
+    handleMessage: async (state, { clientId }) => {
+      await new Promise((resolve) => setTimeout(resolve, 100));
+      events.push('message done');
+      state.resumed.push(clientId);
+    },
+    handleDisconnect: (state, clientId, helpers) => {
+      events.push('disconnect');
+      state.resumed = state.resumed.filter((id) => id !== clientId);
+      testAppLogic.handleDisconnect(state, clientId, helpers);
+    },
+  });
+  t.after(close);
+
+  const client = await connectClient(port);
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'hi' } }));
+  await client.close();
+  await wsServer.idle();
+
+  assert.deepEqual(events, ['message done', 'disconnect']);
+  assert.deepEqual(getState().resumed, []);
+  assert.deepEqual(getState().connections, []);
+});
+
+test('reply and replyError carry the requestId of the request', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+
+  client.ws.send(
+    JSON.stringify({ type: 'setUsername', payload: { username: 'Ann' }, requestId: 'r1' })
+  );
+  const reply = await client.nextMessage();
+  assert.equal(reply.type, 'systemMessage');
+  assert.equal(reply.payload.text, 'hello:Ann');
+  assert.equal((reply as ServerFrame).requestId, 'r1');
+
+  client.ws.send(JSON.stringify({ type: 'leaveRoom', payload: { room: 'x' }, requestId: 'r2' }));
+  const error = await client.nextMessage();
+  assert.equal(error.type, 'error');
+  assert.equal(error.payload.code, 'UNSUPPORTED');
+  assert.equal((error as ServerFrame).requestId, 'r2');
+
+  // Fire-and-forget sends get uncorrelated replies
+  client.ws.send(JSON.stringify({ type: 'setUsername', payload: { username: 'Bo' } }));
+  const plain = await client.nextMessage();
+  assert.equal((plain as ServerFrame).requestId, undefined);
+});
+
+test('validation errors are correlated with the offending request', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port);
+
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  await client.nextMessage();
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: {}, requestId: 'r3' }));
+
+  const error = await client.nextMessage();
+  assert.equal(error.type, 'error');
+  assert.equal(error.payload.field, 'payload.text');
+  assert.equal((error as ServerFrame).requestId, 'r3');
+});
+
+test('rejects unauthenticated upgrades with 401 before opening a socket', async (t) => {
+  const { port, close, wsServer } = await startTestServer({
+    authenticate: createTokenAuthenticator('secret'),
+  });
+  t.after(close);
+
+  const status = await new Promise<number | undefined>((resolve) => {
+    const ws = new WebSocket(`ws://127.0.0.1:${port}/?token=forged`);
+    ws.on('unexpected-response', (_request, response) => resolve(response.statusCode));
+    ws.on('open', () => resolve(undefined));
+    ws.on('error', () => {});
+  });
+
+  assert.equal(status, 401);
+  assert.equal(wsServer.getClientCount(), 0);
+});
+
+test('passes the verified identity to app logic', async (t) => {
+  const { port, close, getState } = await startTestServer({
+    authenticate: createTokenAuthenticator('secret'),
+  });
+  const token = signToken('user-42', 'secret');
+  const viaQuery = await connectClient(port, {}, `?token=${token}`);
+  const viaProtocol = new WebSocket(`ws://127.0.0.1:${port}`, [`auth.${token}`]);
+  await new Promise((resolve) => viaProtocol.once('open', resolve));
+
+  t.after(async () => {
+    await viaQuery.close();
+    viaProtocol.close();
+    await close();
+  });
+
+  await viaQuery.nextMessage();
+  viaQuery.ws.send(
+    JSON.stringify({ type: 'setUsername', payload: { username: 'ignored' }, requestId: 'r1' })
+  );
+  const reply = await viaQuery.nextMessage();
+
+  assert.equal(reply.payload.text, 'hello:user-42');
+  assert.deepEqual(getState().userIds, ['user-42', 'user-42']);
+});
+
+test('answers messages over the rate limit with rateLimited', async (t) => {
+  const { port, close, wsServer } = await startTestServer({
+    rateLimit: { perType: { sendMessage: { burst: 1, perSecond: 1 } } },
+  });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'one' } }));
+  assert.equal((await client.nextMessage()).type, 'systemMessage');
+
+  client.ws.send(
+    JSON.stringify({ type: 'sendMessage', payload: { text: 'two' }, requestId: 'r2' })
+  );
+  const limited = await client.nextMessage();
+
+  assert.equal(limited.type, 'rateLimited');
+  assert.equal(limited.requestId, 'r2');
+  assert.equal(limited.payload.messageType, 'sendMessage');
+  assert.ok(limited.payload.retryAfterMs > 0 && limited.payload.retryAfterMs <= 1000);
+  assert.equal(wsServer.getRateLimitedCount(), 1);
+
+  // Other message types are unaffected
+  client.ws.send(JSON.stringify({ type: 'ping', payload: { timestamp: 1 } }));
+  assert.equal((await client.nextMessage()).type, 'pong');
+});
+
+test('disconnects clients that keep flooding with a policy violation', async (t) => {
+  const { port, close, wsServer } = await startTestServer({
+    rateLimit: { global: { burst: 2, perSecond: 1 }, maxViolations: 3 },
+  });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+
+  const closed = new Promise<number>((resolve) => client.ws.once('close', resolve));
+  for (let i = 0; i < 10; i++) {
+    client.ws.send(JSON.stringify({ type: 'ping', payload: { timestamp: i } }));
+  }
+
+  assert.equal(await closed, 1008);
+  await new Promise((resolve) => setTimeout(resolve, 20));
+  assert.equal(wsServer.getRateLimitDisconnectCount(), 1);
+  assert.equal(wsServer.getClientCount(), 0);
+});
+
+// Stop reading on the client so the server's send buffer fills up
+function pauseReading(client: ClientHandle) {
+  const socket = (client.ws as any)._socket;
+  socket.pause();
+  return () => socket.resume();
+}
+
+const BIG_TEXT = 'x'.repeat(32 * 1024);
+
+test('drops droppable messages for slow clients but keeps must-deliver ones', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer({
+    backpressure: { highWaterMark: 64 * 1024 },
+  });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+  const [clientId] = getState().connections;
+  const helpers = getState().helpers!;
+  const resume = pauseReading(client);
+
+  for (let i = 0; i < 600; i++) {
+    helpers.sendTo(clientId, { type: 'systemMessage', payload: { text: BIG_TEXT } }, { droppable: true });
+  }
+  helpers.sendTo(clientId, { type: 'systemMessage', payload: { text: 'important' } });
+
+  assert.ok(wsServer.getDroppedMessageCount() > 0);
+  assert.ok(wsServer.getBufferedAmount(clientId) < 128 * 1024);
+
+  resume();
+  let received = 0;
+  let last: ServerMessage;
+  do {
+    last = await client.nextMessage();
+    received++;
+  } while (last.type !== 'systemMessage' || last.payload.text !== 'important');
+
+  assert.equal(received + wsServer.getDroppedMessageCount(), 601);
+  assert.equal(wsServer.getClientCount(), 1);
+});
+
+test('coalesces droppable messages to the latest one per type', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer({
+    backpressure: { highWaterMark: 64 * 1024, policy: 'coalesce' },
+  });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+  const [clientId] = getState().connections;
+  const helpers = getState().helpers!;
+  const resume = pauseReading(client);
+
+  for (let i = 0; i < 600; i++) {
+    helpers.sendTo(
+      clientId,
+      { type: 'systemMessage', payload: { text: `${i}:${BIG_TEXT}` } },
+      { droppable: true }
+    );
+  }
+  assert.ok(wsServer.getDroppedMessageCount() > 0);
+
+  resume();
+  let last: ServerMessage;
+  do {
+    last = await client.nextMessage();
+  } while (last.type !== 'systemMessage' || !last.payload.text.startsWith('599:'));
+});
+
+test('disconnects slow consumers with a dedicated close code', async (t) => {
+  const { port, close, wsServer, getState } = await startTestServer({
+    backpressure: { highWaterMark: 64 * 1024, maxBufferedAmount: 256 * 1024 },
+  });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+  const [clientId] = getState().connections;
+  const helpers = getState().helpers!;
+  const resume = pauseReading(client);
+  const closed = new Promise<number>((resolve) => client.ws.once('close', resolve));
+
+  // Must-deliver messages are never dropped, so the buffer hits the hard limit
+  for (let i = 0; i < 600; i++) {
+    helpers.sendTo(clientId, { type: 'systemMessage', payload: { text: BIG_TEXT } });
+    if (wsServer.getSlowConsumerDisconnectCount() > 0) break;
+  }
+  assert.equal(wsServer.getSlowConsumerDisconnectCount(), 1);
+
+  resume();
+  assert.equal(await closed, 4001);
+});
+
+test('negotiates msgpack via subprotocol and answers in binary frames', async (t) => {
+  const { port, close } = await startTestServer();
+  const binary = await connectClient(port, {}, '', ['msgpack']);
+  const text = await connectClient(port);
+  t.after(async () => {
+    await binary.close();
+    await text.close();
+    await close();
+  });
+
+  assert.equal(binary.ws.protocol, 'msgpack');
+  assert.equal((await binary.nextMessage()).type, 'welcome');
+  await text.nextMessage();
+
+  const frameKinds: boolean[] = [];
+  binary.ws.on('message', (_data, isBinary) => frameKinds.push(isBinary));
+  binary.ws.send(msgpackCodec.encode({ type: 'sendMessage', payload: { text: 'packed' } }));
+
+  assert.deepEqual((await binary.nextMessage()).payload, { text: 'echo:packed' });
+  assert.deepEqual((await text.nextMessage()).payload, { text: 'echo:packed' });
+  assert.deepEqual(frameKinds, [true]);
+});
+
+test('never agrees on a codec the server has not enabled', async (t) => {
+  const { port, close } = await startTestServer({ codecs: [jsonCodec] });
+  const client = await connectClient(port, {}, '', ['msgpack', 'json']);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  assert.equal(client.ws.protocol, 'json');
+  assert.equal((await client.nextMessage()).type, 'welcome');
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'plain' } }));
+  assert.deepEqual((await client.nextMessage()).payload, { text: 'echo:plain' });
+
+  // Offering only msgpack gets no subprotocol, which the client refuses
+  await assert.rejects(connectClient(port, {}, '', ['msgpack']), /no subprotocol/);
+});
+
+test('falls back to JSON for unknown subprotocols', async (t) => {
+  const { port, close } = await startTestServer();
+  const client = await connectClient(port, {}, '', ['chat']);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+
+  assert.equal(client.ws.protocol, 'chat');
+  assert.equal((await client.nextMessage()).type, 'welcome');
+});
+
+test('serializes each broadcast once per codec', async (t) => {
+  let encodes = 0;
+  const countingCodec: Codec = {
+    ...jsonCodec,
+    name: 'counting',
+    encode: (value) => {
+      encodes++;
+      return jsonCodec.encode(value);
+    },
+  };
+  const { port, close } = await startTestServer({ codecs: [countingCodec] });
+  const clients = await Promise.all(
+    [1, 2, 3].map(() => connectClient(port, {}, '', ['counting']))
+  );
+  t.after(async () => {
+    await Promise.all(clients.map((client) => client.close()));
+    await close();
+  });
+  await Promise.all(clients.map((client) => client.nextMessage()));
+
+  encodes = 0;
+  clients[0].ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'once' } }));
+  await Promise.all(clients.map((client) => client.nextMessage()));
+
+  assert.equal(encodes, 1);
+});
+
+const clusterSetups = {
+  'in-memory': async () => {
+    const bus = new EventEmitter();
+    return {
+      createAdapter: () => new InMemoryAdapter(bus),
+      close: async () => {},
+    };
+  },
+  redis: async () => {
+    const redis = await startFakeRedis();
+    return {
+      createAdapter: () => new RedisAdapter({ url: redis.url }),
+      close: () => redis.close(),
+    };
+  },
+};
+
+for (const [name, setup] of Object.entries(clusterSetups)) {
+  test(`fans broadcasts and sendTo out across instances (${name} adapter)`, async (t) => {
+    const cluster = await setup();
+    const nodeA = await startTestServer({ adapter: cluster.createAdapter() });
+    const nodeB = await startTestServer({ adapter: cluster.createAdapter() });
+    const alice = await connectClient(nodeA.port);
+    const bob = await connectClient(nodeB.port);
+    t.after(async () => {
+      await alice.close();
+      await bob.close();
+      await nodeA.close();
+      await nodeB.close();
+      await cluster.close();
+    });
+    await alice.nextMessage();
+    await bob.nextMessage();
+
+    // A broadcast on one node reaches clients on the other
+    alice.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'hi all' } }));
+    assert.deepEqual((await alice.nextMessage()).payload, { text: 'echo:hi all' });
+    assert.deepEqual((await bob.nextMessage()).payload, { text: 'echo:hi all' });
+
+    // sendTo reaches a client owned by the other node, and only that client
+    const [bobId] = nodeB.getState().connections;
+    nodeA.getState().helpers!.sendTo(bobId, { type: 'systemMessage', payload: { text: 'psst' } });
+    assert.deepEqual((await bob.nextMessage()).payload, { text: 'psst' });
+    await assert.rejects(alice.nextMessage(100));
+
+    // Room broadcasts reach members on every node
+    bob.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'game' } }));
+    assert.deepEqual((await bob.nextMessage()).payload, { text: 'joined:game' });
+    alice.ws.send(JSON.stringify({ type: 'joinRoom', payload: { room: 'game' } }));
+    assert.deepEqual((await alice.nextMessage()).payload, { text: 'joined:game' });
+    assert.deepEqual((await bob.nextMessage()).payload, { text: 'joined:game' });
+  });
+}
+
+test('snapshots state on close and restores it on the next boot', async (t) => {
+  const dir = await mkdtemp(join(tmpdir(), 'ws-snapshot-'));
+  t.after(() => rm(dir, { recursive: true, force: true }));
+
+  // Map-based state only survives thanks to the serialize/deserialize hooks
+  const countingLogic: AppLogic<{ counts: Map<string, number> }> = {
+    createInitialState: () => ({ counts: new Map() }),
+    handleConnect: () => {},
+    handleDisconnect: () => {},
+    handleMessage: (state, { message, reply }) => {
+      state.counts.set(message.type, (state.counts.get(message.type) ?? 0) + 1);
+      reply({ type: 'systemMessage', payload: { text: 'counted' } });
+    },
+    serializeState: (state) => Array.from(state.counts.entries()),
+    deserializeState: (data) => ({ counts: new Map(data as [string, number][]) }),
+  };
+
+  const boot = async () => {
+    const httpServer = createServer();
+    await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+    const wsServer = new WSServer(httpServer, countingLogic, {
+      persistence: { store: new FileStateStore(join(dir, 'state.json')), snapshotInterval: 0 },
+    });
+    await wsServer.ready();
+    const { port } = httpServer.address() as { port: number };
+    const shutdown = async () => {
+      await wsServer.close();
+      await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+    };
+    return { port, wsServer, shutdown };
+  };
+
+  const first = await boot();
+  const client = await connectClient(first.port);
+  await client.nextMessage();
+  for (const text of ['a', 'b']) {
+    client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text } }));
+    await client.nextMessage();
+  }
+  await client.close();
+  await first.shutdown();
+
+  const second = await boot();
+  t.after(second.shutdown);
+  const restored = (second.wsServer as any).state as { counts: Map<string, number> };
+  assert.ok(restored.counts instanceof Map);
+  assert.equal(restored.counts.get('sendMessage'), 2);
+});
+
+test('drives handleTick and cancels app timers on close', async (t) => {
+  const ticks: number[] = [];
+  let timerFired = false;
+
+  const tickingLogic: AppLogic<{ started: boolean }> = {
+    createInitialState: () => ({ started: false }),
+    handleConnect: () => {},
+    handleDisconnect: () => {},
+    handleMessage: () => {},
+    handleTick: (state, dt, helpers) => {
+      ticks.push(dt);
+      if (!state.started) {
+        state.started = true;
+        // A countdown that must not outlive the server
+        helpers.setTimer(10_000, () => {
+          timerFired = true;
+        });
+      }
+    },
+  };
+
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const wsServer = new WSServer(httpServer, tickingLogic, { tickRate: 100 });
+  t.after(() => new Promise<void>((resolve) => httpServer.close(() => resolve())));
+
+  await new Promise((resolve) => setTimeout(resolve, 100));
+  await wsServer.close();
+  const ticksAtClose = ticks.length;
+
+  assert.ok(ticksAtClose >= 5, `expected ticks at 100/s, got ${ticksAtClose}`);
+  assert.equal((wsServer as any).scheduler.size, 0);
+
+  await new Promise((resolve) => setTimeout(resolve, 30));
+  assert.equal(ticks.length, ticksAtClose);
+  assert.equal(timerFired, false);
+});
+
+test('routes upgrades to the WSServer mounted on the path', async (t) => {
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as { port: number };
+
+  const labelLogic = (label: string): AppLogic<{ label: string }> => ({
+    createInitialState: () => ({ label }),
+    handleConnect: () => {},
+    handleDisconnect: () => {},
+    handleMessage: (state, { reply }) => {
+      reply({ type: 'systemMessage', payload: { text: state.label } });
+    },
+  });
+
+  const metrics = createServerMetrics();
+  const chat = new WSServer(httpServer, labelLogic('chat'), { path: '/ws/chat', metrics });
+  const game = new WSServer(httpServer, labelLogic('game'), { path: '/ws/game/', metrics });
+  await Promise.all([chat.ready(), game.ready()]);
+
+  const chatClient = await connectClient(port, {}, 'ws/chat?x=1');
+  const gameClient = await connectClient(port, {}, 'ws/game');
+  t.after(async () => {
+    await chatClient.close();
+    await gameClient.close();
+    await chat.close();
+    await game.close();
+    await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+  });
+
+  await chatClient.nextMessage();
+  await gameClient.nextMessage();
+
+  // Each endpoint has its own app logic, state and clients
+  const ask = (client: ClientHandle) =>
+    client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'who?' } }));
+  ask(chatClient);
+  ask(gameClient);
+  assert.deepEqual((await chatClient.nextMessage()).payload, { text: 'chat' });
+  assert.deepEqual((await gameClient.nextMessage()).payload, { text: 'game' });
+  assert.equal(chat.getClientCount(), 1);
+  assert.equal(game.getClientCount(), 1);
+
+  // Paths nobody claimed are refused
+  await assert.rejects(connectClient(port, {}, 'ws/other'), /404/);
+
+  // The same path can't be mounted twice
+  assert.throws(() => new WSServer(httpServer, labelLogic('again'), { path: '/ws/chat' }), /already mounted/);
+
+  // A shared registry labels every series with its endpoint
+  const rendered = metrics.registry.render();
+  assert.match(rendered, /^ws_connections\{endpoint="\/ws\/chat"\} 1$/m);
+  assert.match(rendered, /^ws_connections\{endpoint="\/ws\/game"\} 1$/m);
+  assert.match(rendered, /^ws_messages_received_total\{endpoint="\/ws\/game",type="sendMessage"\} 1$/m);
+});
+
+test('answers upgrades with a malformed target with 400 and keeps serving', async (t) => {
+  const { port, close } = await startTestServer();
+  t.after(close);
+
+  // `new URL` throws on these targets; ws clients can't send them, so go raw
+  for (const target of ['//', '//[::1']) {
+    const response = await new Promise<string>((resolve, reject) => {
+      let received = '';
+      const socket = connect(port, '127.0.0.1', () => {
+        socket.write(
+          `GET ${target} HTTP/1.1\r\n` +
+            `Host: 127.0.0.1:${port}\r\n` +
+            'Connection: Upgrade\r\n' +
+            'Upgrade: websocket\r\n' +
+            'Sec-WebSocket-Version: 13\r\n' +
+            'Sec-WebSocket-Key: dGhlIHNhbXBsZSBub25jZQ==\r\n\r\n'
+        );
+      });
+      socket.setTimeout(2000, () => socket.destroy());
+      socket.on('data', (chunk) => (received += chunk));
+      socket.on('close', () => resolve(received));
+      socket.on('error', reject);
+    });
+    assert.match(response, /^HTTP\/1\.1 400 /);
+  }
+
+  const client = await connectClient(port);
+  t.after(() => client.close());
+  assert.equal((await client.nextMessage()).type, 'welcome');
+});
+
+test('drains clients on close and lets stragglers go with going away', async (t) => {
+  let connectedAtShutdown = -1;
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as { port: number };
+  const wsServer = new WSServer<TestState>(
+    httpServer,
+    {
+      ...testAppLogic,
+      handleShutdown: (state, helpers) => {
+        connectedAtShutdown = state.connections.length;
+        helpers.broadcastAll({ type: 'systemMessage', payload: { text: 'bye' } });
+      },
+    },
+    { drain: { timeout: 200, reconnectAfter: 100, reconnectJitter: 300 } }
+  );
+  await wsServer.ready();
+  t.after(() => new Promise<void>((resolve) => httpServer.close(() => resolve())));
+
+  const leaver = await connectClient(port);
+  const straggler = await connectClient(port);
+  await leaver.nextMessage();
+  await straggler.nextMessage();
+  const closed = new Promise<number>((resolve) => straggler.ws.once('close', (code) => resolve(code)));
+
+  const closing = wsServer.close();
+  for (const client of [leaver, straggler]) {
+    assert.deepEqual(await client.nextMessage(), {
+      type: 'serverShuttingDown',
+      payload: { closeInMs: 200, reconnectAfterMs: 100, reconnectJitterMs: 300 },
+    });
+  }
+
+  // Newcomers are turned away while the server drains
+  await assert.rejects(connectClient(port), /503/);
+
+  await leaver.close();
+  assert.deepEqual((await straggler.nextMessage()).payload, { text: 'bye' });
+  assert.equal(await closed, 1001);
+  await closing;
+  assert.equal(connectedAtShutdown, 1);
+});
+
+test('ends every session before closing the adapter and taking the final snapshot', async (t) => {
+  const events: string[] = [];
+  class RecordingAdapter extends InMemoryAdapter {
+    publish(envelope: Parameters<InMemoryAdapter['publish']>[0]) {
+      events.push('publish');
+      super.publish(envelope);
+    }
+    close() {
+      events.push('adapter closed');
+      super.close();
+    }
+  }
+  const saved: TestState[] = [];
+
+  const httpServer = createServer();
+  await new Promise<void>((resolve) => httpServer.listen(0, resolve));
+  const { port } = httpServer.address() as { port: number };
+  const wsServer = new WSServer<TestState>(
+    httpServer,
+    {
+      ...testAppLogic,
+      handleDisconnect: (state, clientId, helpers) => {
+        events.push('disconnect');
+        helpers.broadcastAll({ type: 'systemMessage', payload: { text: `left:${clientId}` } });
+        testAppLogic.handleDisconnect(state, clientId, helpers);
+      },
+    },
+    {
+      adapter: new RecordingAdapter(),
+      persistence: {
+        store: {
+          load: async () => null,
+          save: async ({ state }) => {
+            events.push('snapshot');
+            saved.push(JSON.parse(JSON.stringify(state)));
+          },
+        },
+        snapshotInterval: 0,
+      },
+    }
+  );
+  await wsServer.ready();
+  t.after(() => new Promise<void>((resolve) => httpServer.close(() => resolve())));
+
+  const client = await connectClient(port);
+  await client.nextMessage();
+
+  // The client's socket only closes after the closing handshake; close() waits for it
+  await wsServer.close();
+
+  assert.deepEqual(events, ['disconnect', 'publish', 'adapter closed', 'snapshot']);
+  assert.deepEqual(saved[0]?.connections, []);
+});
+
+test('finishes draining as soon as the last client leaves', async (t) => {
+  const { port, close, wsServer } = await startTestServer({ drain: { timeout: 10_000 } });
+  t.after(close);
+  const client = await connectClient(port);
+  await client.nextMessage();
+
+  const started = Date.now();
+  const closing = wsServer.close();
+  assert.equal((await client.nextMessage()).type, 'serverShuttingDown');
+  await client.close();
+  await closing;
+
+  assert.ok(Date.now() - started < 2000, 'drain should not wait for the full timeout');
+});
+
+test('refuses upgrades from origins that are not allowed', async (t) => {
+  const { port, close, wsServer } = await startTestServer({
+    admission: { allowedOrigins: ['http://app.example/'] },
+  });
+  const allowed = await connectClient(port, { origin: 'http://app.example' });
+  const sameOrigin = await connectClient(port, { origin: `http://127.0.0.1:${port}` });
+  const noOrigin = await connectClient(port);
+  t.after(async () => {
+    await Promise.all([allowed.close(), sameOrigin.close(), noOrigin.close()]);
+    await close();
+  });
+
+  await assert.rejects(connectClient(port, { origin: 'http://evil.example' }), /403/);
+  assert.equal(wsServer.getClientCount(), 3);
+  assert.equal(wsServer.getRejectedUpgradeCount(), 1);
+  assert.match(wsServer.renderMetrics(), /^ws_rejected_upgrades_total\{reason="origin"\} 1$/m);
+});
+
+test('limits connections in total and per remote address', async (t) => {
+  const perAddress = await startTestServer({ admission: { maxConnectionsPerAddress: 2 } });
+  const first = await connectClient(perAddress.port);
+  const second = await connectClient(perAddress.port);
+  await assert.rejects(connectClient(perAddress.port), /429/);
+
+  // A closed connection frees its slot
+  await first.close();
+  await new Promise((resolve) => setTimeout(resolve, 50));
+  const third = await connectClient(perAddress.port);
+
+  const total = await startTestServer({ admission: { maxConnections: 1 } });
+  const only = await connectClient(total.port);
+  await assert.rejects(connectClient(total.port), /503/);
+
+  t.after(async () => {
+    await Promise.all([second.close(), third.close(), only.close()]);
+    await perAddress.close();
+    await total.close();
+  });
+  assert.match(perAddress.wsServer.renderMetrics(), /^ws_rejected_upgrades_total\{reason="address_limit"\} 1$/m);
+  assert.match(total.wsServer.renderMetrics(), /^ws_rejected_upgrades_total\{reason="capacity"\} 1$/m);
+});
+
+test('closes connections that send messages over maxPayload', async (t) => {
+  const { port, close } = await startTestServer({ admission: { maxPayload: 256 } });
+  const client = await connectClient(port);
+  t.after(async () => {
+    await client.close();
+    await close();
+  });
+  await client.nextMessage();
+
+  const closed = new Promise<number>((resolve) => client.ws.once('close', (code) => resolve(code)));
+  client.ws.send(JSON.stringify({ type: 'sendMessage', payload: { text: 'x'.repeat(300) } }));
+  assert.equal(await closed, 1009);
+});
+
+test('drops upgrades that outlast the handshake timeout', async (t) => {
+  const { port, close, wsServer } = await startTestServer({
+    authenticate: () => new Promise((resolve) => setTimeout(() => resolve({ userId: 'late' }), 300)),
+    admission: { handshakeTimeout: 50 },
+  });
+  t.after(close);
+
+  await assert.rejects(connectClient(port), /408/);
+  assert.equal(wsServer.getRejectedUpgradeCount(), 1);
+
+  // The late authenticator must not open a socket after the refusal
+  await new Promise((resolve) => setTimeout(resolve, 350));
+  assert.equal(wsServer.getClientCount(), 0);
+});
@@ -0,0 +1,378 @@
+/**
+ * Wire Codecs
+ *
+ * 📦 How frames are turned into bytes, shared by server and client.
+ * The client offers a codec's `name` as its WebSocket subprotocol and the
+ * server answers with the one it picked, so both ends always agree.
+ * Connections that don't negotiate anything use JSON.
+ */
+
+/**
+ * Encodes frames for the wire and decodes them back
+ */
+export interface Codec {
+  /** Subprotocol this codec is negotiated under */
+  name: string;
+
+  /** Whether frames travel as binary (true) or text (false) WebSocket messages */
+  binary: boolean;
+
+  encode(value: unknown): string | Uint8Array;
+
+  /** Throws when the data isn't valid for this codec */
+  decode(data: string | Uint8Array): unknown;
+}
+
+const textEncoder = new TextEncoder();
+const textDecoder = new TextDecoder();
+
+// ============================================================================
+// JSON
+// ============================================================================
+
+/**
+ * Plain JSON in text frames; readable in browser dev tools
+ */
+export const jsonCodec: Codec = {
+  name: 'json',
+  binary: false,
+  encode: (value) => JSON.stringify(value),
+  decode: (data) => JSON.parse(typeof data === 'string' ? data : textDecoder.decode(data)),
+};
+
+// ============================================================================
+// MESSAGEPACK
+// ============================================================================
+
+/**
+ * Growable byte buffer the MessagePack encoder writes into
+ */
+class Writer {
+  private bytes = new Uint8Array(256);
+  private view = new DataView(this.bytes.buffer);
+  private length = 0;
+
+  private reserve(size: number): number {
+    const offset = this.length;
+    if (offset + size > this.bytes.length) {
+      const grown = new Uint8Array(Math.max(this.bytes.length * 2, offset + size));
+      grown.set(this.bytes);
+      this.bytes = grown;
+      this.view = new DataView(grown.buffer);
+    }
+    this.length += size;
+    return offset;
+  }
+
+  u8(value: number): void {
+    const offset = this.reserve(1);
+    this.bytes[offset] = value;
+  }
+
+  u16(value: number): void {
+    this.view.setUint16(this.reserve(2), value);
+  }
+
+  u32(value: number): void {
+    this.view.setUint32(this.reserve(4), value);
+  }
+
+  i8(value: number): void {
+    this.view.setInt8(this.reserve(1), value);
+  }
+
+  i16(value: number): void {
+    this.view.setInt16(this.reserve(2), value);
+  }
+
+  i32(value: number): void {
+    this.view.setInt32(this.reserve(4), value);
+  }
+
+  u64(value: number): void {
+    this.view.setBigUint64(this.reserve(8), BigInt(value));
+  }
+
+  i64(value: number): void {
+    this.view.setBigInt64(this.reserve(8), BigInt(value));
+  }
+
+  f64(value: number): void {
+    this.view.setFloat64(this.reserve(8), value);
+  }
+
+  raw(bytes: Uint8Array): void {
+    // Reserve first: it may swap in a bigger buffer
+    const offset = this.reserve(bytes.length);
+    this.bytes.set(bytes, offset);
+  }
+
+  finish(): Uint8Array {
+    return this.bytes.slice(0, this.length);
+  }
+}
+
+/**
+ * Write a length header using the fix/8/16/32 variant that fits
+ */
+function writeHeader(
+  writer: Writer,
+  length: number,
+  fix: { base: number; max: number } | null,
+  codes: [number | null, number, number]
+): void {
+  const [code8, code16, code32] = codes;
+  if (fix && length <= fix.max) {
+    writer.u8(fix.base | length);
+  } else if (code8 !== null && length <= 0xff) {
+    writer.u8(code8);
+    writer.u8(length);
+  } else if (length <= 0xffff) {
+    writer.u8(code16);
+    writer.u16(length);
+  } else {
+    writer.u8(code32);
+    writer.u32(length);
+  }
+}
+
+function encodeNumber(writer: Writer, value: number): void {
+  if (!Number.isSafeInteger(value)) {
+    writer.u8(0xcb);
+    writer.f64(value);
+  } else if (value >= 0) {
+    if (value <= 0x7f) {
+      writer.u8(value);
+    } else if (value <= 0xff) {
+      writer.u8(0xcc);
+      writer.u8(value);
+    } else if (value <= 0xffff) {
+      writer.u8(0xcd);
+      writer.u16(value);
+    } else if (value <= 0xffffffff) {
+      writer.u8(0xce);
+      writer.u32(value);
+    } else {
+      writer.u8(0xcf);
+      writer.u64(value);
+    }
+  } else if (value >= -32) {
+    writer.i8(value);
+  } else if (value >= -0x80) {
+    writer.u8(0xd0);
+    writer.i8(value);
+  } else if (value >= -0x8000) {
+    writer.u8(0xd1);
+    writer.i16(value);
+  } else if (value >= -0x80000000) {
+    writer.u8(0xd2);
+    writer.i32(value);
+  } else {
+    writer.u8(0xd3);
+    writer.i64(value);
+  }
+}
+
+/**
+ * Encode a value the way JSON.stringify would see it: undefined object
+ * properties are skipped and undefined array items become nil
+ */
+function encodeValue(writer: Writer, value: unknown): void {
+  if (value === null || value === undefined) {
+    writer.u8(0xc0);
+  } else if (typeof value === 'boolean') {
+    writer.u8(value ? 0xc3 : 0xc2);
+  } else if (typeof value === 'number') {
+    encodeNumber(writer, value);
+  } else if (typeof value === 'string') {
+    const bytes = textEncoder.encode(value);
+    writeHeader(writer, bytes.length, { base: 0xa0, max: 31 }, [0xd9, 0xda, 0xdb]);
+    writer.raw(bytes);
+  } else if (value instanceof Uint8Array) {
+    writeHeader(writer, value.length, null, [0xc4, 0xc5, 0xc6]);
+    writer.raw(value);
+  } else if (Array.isArray(value)) {
+    writeHeader(writer, value.length, { base: 0x90, max: 15 }, [null, 0xdc, 0xdd]);
+    value.forEach((item) => encodeValue(writer, item));
+  } else if (typeof value === 'object') {
+    const entries = Object.entries(value).filter(([, item]) => item !== undefined);
+    writeHeader(writer, entries.length, { base: 0x80, max: 15 }, [null, 0xde, 0xdf]);
+    entries.forEach(([key, item]) => {
+      encodeValue(writer, key);
+      encodeValue(writer, item);
+    });
+  } else {
+    throw new TypeError(`Cannot encode ${typeof value} as MessagePack`);
+  }
+}
+
+/**
+ * Cursor over a MessagePack buffer
+ */
+class Reader {
+  private view: DataView;
+  private offset = 0;
+
+  constructor(private readonly bytes: Uint8Array) {
+    this.view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  }
+
+  private advance(size: number): number {
+    const offset = this.offset;
+    if (offset + size > this.bytes.length) {
+      throw new RangeError('Unexpected end of MessagePack data');
+    }
+    this.offset += size;
+    return offset;
+  }
+
+  get done(): boolean {
+    return this.offset === this.bytes.length;
+  }
+
+  u8(): number {
+    return this.view.getUint8(this.advance(1));
+  }
+
+  u16(): number {
+    return this.view.getUint16(this.advance(2));
+  }
+
+  u32(): number {
+    return this.view.getUint32(this.advance(4));
+  }
+
+  i8(): number {
+    return this.view.getInt8(this.advance(1));
+  }
+
+  i16(): number {
+    return this.view.getInt16(this.advance(2));
+  }
+
+  i32(): number {
+    return this.view.getInt32(this.advance(4));
+  }
+
+  u64(): number {
+    return Number(this.view.getBigUint64(this.advance(8)));
+  }
+
+  i64(): number {
+    return Number(this.view.getBigInt64(this.advance(8)));
+  }
+
+  f32(): number {
+    return this.view.getFloat32(this.advance(4));
+  }
+
+  f64(): number {
+    return this.view.getFloat64(this.advance(8));
+  }
+
+  raw(length: number): Uint8Array {
+    const offset = this.advance(length);
+    return this.bytes.slice(offset, offset + length);
+  }
+
+  str(length: number): string {
+    const offset = this.advance(length);
+    return textDecoder.decode(this.bytes.subarray(offset, offset + length));
+  }
+}
+
+function decodeArray(reader: Reader, length: number): unknown[] {
+  const items: unknown[] = [];
+  for (let i = 0; i < length; i++) items.push(decodeValue(reader));
+  return items;
+}
+
+function decodeMap(reader: Reader, length: number): Record<string, unknown> {
+  const map: Record<string, unknown> = {};
+  for (let i = 0; i < length; i++) {
+    const key = decodeValue(reader);
+    if (typeof key !== 'string') throw new TypeError('MessagePack map keys must be strings');
+    // Keep "__proto__" an own property instead of swapping the prototype
+    Object.defineProperty(map, key, {
+      value: decodeValue(reader),
+      enumerable: true,
+      writable: true,
+      configurable: true,
+    });
+  }
+  return map;
+}
+
+function decodeValue(reader: Reader): unknown {
+  const code = reader.u8();
+
+  if (code <= 0x7f) return code;
+  if (code >= 0xe0) return code - 0x100;
+  if ((code & 0xf0) === 0x80) return decodeMap(reader, code & 0x0f);
+  if ((code & 0xf0) === 0x90) return decodeArray(reader, code & 0x0f);
+  if ((code & 0xe0) === 0xa0) return reader.str(code & 0x1f);
+
+  switch (code) {
+    case 0xc0: return null;
+    case 0xc2: return false;
+    case 0xc3: return true;
+    case 0xc4: return reader.raw(reader.u8());
+    case 0xc5: return reader.raw(reader.u16());
+    case 0xc6: return reader.raw(reader.u32());
+    case 0xca: return reader.f32();
+    case 0xcb: return reader.f64();
+    case 0xcc: return reader.u8();
+    case 0xcd: return reader.u16();
+    case 0xce: return reader.u32();
+    case 0xcf: return reader.u64();
+    case 0xd0: return reader.i8();
+    case 0xd1: return reader.i16();
+    case 0xd2: return reader.i32();
+    case 0xd3: return reader.i64();
+    case 0xd9: return reader.str(reader.u8());
+    case 0xda: return reader.str(reader.u16());
+    case 0xdb: return reader.str(reader.u32());
+    case 0xdc: return decodeArray(reader, reader.u16());
+    case 0xdd: return decodeArray(reader, reader.u32());
+    case 0xde: return decodeMap(reader, reader.u16());
+    case 0xdf: return decodeMap(reader, reader.u32());
+    default:
+      throw new TypeError(`Unsupported MessagePack type 0x${code.toString(16)}`);
+  }
+}
+
+/**
+ * MessagePack in binary frames: smaller than JSON and carries raw bytes
+ * (Uint8Array) natively. Extension types are not supported.
+ */
+export const msgpackCodec: Codec = {
+  name: 'msgpack',
+  binary: true,
+  encode: (value) => {
+    const writer = new Writer();
+    encodeValue(writer, value);
+    return writer.finish();
+  },
+  decode: (data) => {
+    if (typeof data === 'string') throw new TypeError('MessagePack frames must be binary');
+
+    const reader = new Reader(data);
+    const value = decodeValue(reader);
+    if (!reader.done) throw new RangeError('Trailing bytes after MessagePack value');
+    return value;
+  },
+};
+
+// ============================================================================
+// REGISTRY
+// ============================================================================
+
+/** Every codec this build understands */
+export const codecs: Codec[] = [msgpackCodec, jsonCodec];
+
+/**
+ * Look up a codec by its subprotocol name
+ */
+export function findCodec(name: string, available: Codec[] = codecs): Codec | undefined {
+  return available.find((codec) => codec.name === name);
+}
@@ -0,0 +1,10 @@
+/**
+ * Shared protocol package
+ *
+ * Re-exports the message types, validators, wire codecs and protocol
+ * version used by both the server and the client workspaces.
+ */
+
+export * from './protocol.js';
+export * from './validation.js';
+export * from './codec.js';
@@ -0,0 +1,136 @@
+/**
+ * WebSocket Message Protocol
+ *
+ * 📦 The single source of truth for the contract between client and server.
+ * Both server/src/wsServer.ts and client/src/wsClient.ts compile against
+ * these types, so changing a message here is a type error on both sides.
+ */
+
+/**
+ * Protocol version, sent to clients in the welcome message.
+ * Bump it whenever a change here breaks older clients or servers.
+ */
+export const PROTOCOL_VERSION = 1;
+
+// ============================================================================
+// CLIENT → SERVER MESSAGES
+// ============================================================================
+
+// Every variant needs a payload schema in validation.ts
+export type ClientMessage =
+  | { type: 'setUsername'; payload: { username: string } }
+  | { type: 'sendMessage'; payload: { text: string } }
+  | { type: 'joinRoom'; payload: { room: string } }
+  | { type: 'leaveRoom'; payload: { room: string } }
+  // Page back through a room's history from the oldest message the client has
+  // (omit `before` for the latest page); answered with `history`
+  | { type: 'fetchHistory'; payload: { room: string; before?: string; limit?: number } }
+  // Repeated every few seconds while the user types; the server expires it otherwise
+  | { type: 'typingStarted'; payload: { room: string } }
+  | { type: 'typingStopped'; payload: { room: string } }
+  // Sent by the client as the user goes idle or comes back
+  | { type: 'setStatus'; payload: { status: PresenceStatus } }
+  // Heartbeat, answered by WSServer itself and never routed to app logic
+  | { type: 'ping'; payload: { timestamp: number } };
+
+// ============================================================================
+// SERVER → CLIENT MESSAGES
+// ============================================================================
+
+export type ServerMessage =
+  | {
+      type: 'welcome';
+      payload: {
+        clientId: string;
+        protocolVersion: number;
+        /** Present this when reconnecting to keep the same clientId */
+        resumeToken: string;
+        /** True when this connection picked up an earlier session */
+        resumed: boolean;
+      };
+    }
+  | { type: 'userJoined'; payload: { username: string; room: string } }
+  | { type: 'userLeft'; payload: { username: string; room: string } }
+  | { type: 'roomJoined'; payload: { room: string; members: string[] } }
+  | { type: 'roomLeft'; payload: { room: string } }
+  // Everyone online, sent on connect; presenceChanged/presenceRemoved keep it current
+  | { type: 'userList'; payload: { users: UserPresence[] } }
+  | { type: 'presenceChanged'; payload: UserPresence }
+  | { type: 'presenceRemoved'; payload: { clientId: string } }
+  // Someone started or stopped typing in `room`
+  | {
+      type: 'userTyping';
+      payload: { clientId: string; username: string; room: string; typing: boolean };
+    }
+  | { type: 'chatMessage'; payload: ChatMessage }
+  // Recent messages, oldest first; sent after joining a room and in reply to fetchHistory
+  | { type: 'history'; payload: { room: string; messages: ChatMessage[]; hasMore: boolean } }
+  | { type: 'systemMessage'; payload: { text: string } }
+  | { type: 'error'; payload: { message: string; code?: string; field?: string } }
+  // The message was dropped for exceeding a rate limit; retry after the delay
+  | { type: 'rateLimited'; payload: { retryAfterMs: number; messageType?: string } }
+  | { type: 'pong'; payload: { timestamp: number } }
+  // The server is going away and closes the connection within closeInMs.
+  // Reconnect after reconnectAfterMs plus a random share of reconnectJitterMs,
+  // so clients don't all come back at once.
+  | {
+      type: 'serverShuttingDown';
+      payload: { closeInMs: number; reconnectAfterMs: number; reconnectJitterMs: number };
+    };
+
+// ============================================================================
+// FRAMES
+// ============================================================================
+
+/**
+ * Optional envelope field tying a reply to the request that caused it.
+ * WSClient.request() sets it; the server echoes it on the reply.
+ */
+export interface Correlated {
+  requestId?: string;
+}
+
+/** What actually travels client → server */
+export type ClientFrame = ClientMessage & Correlated;
+
+/** What actually travels server → client */
+export type ServerFrame = ServerMessage & Correlated;
+
+// ============================================================================
+// DATA STRUCTURES
+// ============================================================================
+
+export interface ChatMessage {
+  /** Unique and stable, used as the fetchHistory cursor */
+  id: string;
+  username: string;
+  text: string;
+  timestamp: number;
+  clientId: string;
+  room: string;
+}
+
+/** Whether a user is at the keyboard */
+export const PRESENCE_STATUSES = ['online', 'away'] as const;
+
+export type PresenceStatus = (typeof PRESENCE_STATUSES)[number];
+
+export interface User {
+  clientId: string;
+  username: string;
+  connectedAt: number;
+  /** Room the user is currently chatting in (null after leaving) */
+  room: string | null;
+  status: PresenceStatus;
+}
+
+/**
+ * A user as the roster shows them to everyone else
+ */
+export interface UserPresence {
+  clientId: string;
+  /** Null until the user picks a name */
+  username: string | null;
+  room: string | null;
+  status: PresenceStatus;
+}
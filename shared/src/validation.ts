@@ -0,0 +1,178 @@
+/**
+ * Runtime validation for inbound client messages
+ *
+ * 📦 WSServer runs every parsed frame through validateClientMessage() before
+ * it reaches app logic, so handlers can trust the shape of message.payload.
+ *
+ * When you add a ClientMessage variant in protocol.ts, declare its payload in
+ * clientMessageSchemas below — the compiler will remind you if you forget.
+ */
+
+import { PRESENCE_STATUSES, type ClientMessage } from './protocol.js';
+
+// ============================================================================
+// SCHEMA DEFINITIONS
+// ============================================================================
+
+/**
+ * Primitive types a payload field can have
+ */
+export type FieldType = 'string' | 'number' | 'boolean';
+
+/**
+ * Declares the expected type of a single payload field
+ */
+export interface FieldSchema {
+  type: FieldType;
+  /** Allow the field to be missing (default: false) */
+  optional?: boolean;
+  /** Only accept these values */
+  oneOf?: readonly (string | number | boolean)[];
+  /** Numbers only: require a whole number, which also rules out NaN and Infinity */
+  integer?: boolean;
+  /** Numbers only: smallest accepted value */
+  min?: number;
+}
+
+/**
+ * Declares every field of a payload object
+ */
+export type PayloadSchema<Payload> = {
+  [Field in keyof Payload]-?: FieldSchema;
+};
+
+/**
+ * One payload schema per ClientMessage variant, keyed by message type
+ */
+export type ClientMessageSchemas = {
+  [Type in ClientMessage['type']]: PayloadSchema<Extract<ClientMessage, { type: Type }>['payload']>;
+};
+
+/**
+ * Schema registry for client → server messages
+ *
+ * 🎮 CUSTOMIZATION POINT: Add an entry for each message type you define
+ */
+export const clientMessageSchemas: ClientMessageSchemas = {
+  setUsername: { username: { type: 'string' } },
+  sendMessage: { text: { type: 'string' } },
+  joinRoom: { room: { type: 'string' } },
+  leaveRoom: { room: { type: 'string' } },
+  fetchHistory: {
+    room: { type: 'string' },
+    before: { type: 'string', optional: true },
+    limit: { type: 'number', optional: true, integer: true, min: 1 },
+  },
+  typingStarted: { room: { type: 'string' } },
+  typingStopped: { room: { type: 'string' } },
+  setStatus: { status: { type: 'string', oneOf: PRESENCE_STATUSES } },
+  ping: { timestamp: { type: 'number' } },
+};
+
+// ============================================================================
+// VALIDATION
+// ============================================================================
+
+/**
+ * Describes why a frame was rejected
+ */
+export interface ValidationError {
+  /** Human-readable reason */
+  message: string;
+  /** Path of the offending field (e.g. "payload.text"), if any */
+  field?: string;
+}
+
+export type ValidationResult =
+  | { ok: true; message: ClientMessage; requestId?: string }
+  | { ok: false; error: ValidationError; requestId?: string };
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+}
+
+function hasSchema(type: string): type is ClientMessage['type'] {
+  return Object.prototype.hasOwnProperty.call(clientMessageSchemas, type);
+}
+
+/**
+ * Check a frame's type and payload against the schema registry
+ */
+function checkMessage(raw: Record<string, unknown>): ValidationError | null {
+  if (typeof raw.type !== 'string') {
+    return { message: `Expected string, got ${describeType(raw.type)}`, field: 'type' };
+  }
+
+  if (!hasSchema(raw.type)) {
+    return { message: `Unknown message type: ${raw.type}`, field: 'type' };
+  }
+
+  if (!isPlainObject(raw.payload)) {
+    return { message: `Expected object, got ${describeType(raw.payload)}`, field: 'payload' };
+  }
+
+  const schema: Record<string, FieldSchema> = clientMessageSchemas[raw.type];
+  for (const [name, field] of Object.entries(schema)) {
+    const value = raw.payload[name];
+
+    if (value === undefined) {
+      if (field.optional) continue;
+      return { message: 'Missing required field', field: `payload.${name}` };
+    }
+
+    if (typeof value !== field.type) {
+      return {
+        message: `Expected ${field.type}, got ${describeType(value)}`,
+        field: `payload.${name}`,
+      };
+    }
+
+    if (field.oneOf && !field.oneOf.includes(value as string | number | boolean)) {
+      return { message: `Expected one of ${field.oneOf.join(', ')}`, field: `payload.${name}` };
+    }
+
+    if (field.integer && !Number.isInteger(value)) {
+      return { message: `Expected an integer, got ${value}`, field: `payload.${name}` };
+    }
+
+    if (field.min !== undefined && (value as number) < field.min) {
+      return { message: `Expected at least ${field.min}, got ${value}`, field: `payload.${name}` };
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Check that a parsed JSON value is a well-formed ClientFrame.
+ *
+ * The returned message only carries `type` and `payload`; the frame's
+ * `requestId` (if any) is reported separately, even for rejected frames,
+ * so the error can be correlated with the request that caused it.
+ */
+export function validateClientMessage(raw: unknown): ValidationResult {
+  if (!isPlainObject(raw)) {
+    return { ok: false, error: { message: 'Message must be a JSON object' } };
+  }
+
+  if (raw.requestId !== undefined && typeof raw.requestId !== 'string') {
+    return {
+      ok: false,
+      error: { message: `Expected string, got ${describeType(raw.requestId)}`, field: 'requestId' },
+    };
+  }
+
+  const requestId = raw.requestId;
+  const error = checkMessage(raw);
+  if (error) {
+    return { ok: false, error, requestId };
+  }
+
+  return { ok: true, message: { type: raw.type, payload: raw.payload } as ClientMessage, requestId };
+}
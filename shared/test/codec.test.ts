@@ -0,0 +1,131 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { codecs, findCodec, jsonCodec, msgpackCodec } from '../src/codec.js';
+import { clientMessageSchemas } from '../src/validation.js';
+import type { ClientMessage, ServerMessage } from '../src/protocol.js';
+
+type Samples<M extends { type: string }> = { [K in M['type']]: Extract<M, { type: K }> };
+
+const chatMessage = {
+  id: 'msg_1',
+  username: 'Zoë',
+  text: 'héllo 👋',
+  timestamp: 1_700_000_000_000,
+  clientId: 'client_1',
+  room: 'lobby',
+};
+
+const clientSamples: Samples<ClientMessage> = {
+  setUsername: { type: 'setUsername', payload: { username: 'Ann' } },
+  sendMessage: { type: 'sendMessage', payload: { text: 'x'.repeat(70_000) } },
+  joinRoom: { type: 'joinRoom', payload: { room: 'general' } },
+  leaveRoom: { type: 'leaveRoom', payload: { room: 'general' } },
+  fetchHistory: { type: 'fetchHistory', payload: { room: 'general', before: 'msg_1', limit: 20 } },
+  typingStarted: { type: 'typingStarted', payload: { room: 'general' } },
+  typingStopped: { type: 'typingStopped', payload: { room: 'general' } },
+  setStatus: { type: 'setStatus', payload: { status: 'away' } },
+  ping: { type: 'ping', payload: { timestamp: Date.now() } },
+};
+
+const serverSamples: Samples<ServerMessage> = {
+  welcome: {
+    type: 'welcome',
+    payload: { clientId: 'client_1', protocolVersion: 1, resumeToken: 'abc', resumed: false },
+  },
+  userJoined: { type: 'userJoined', payload: { username: 'Ann', room: 'lobby' } },
+  userLeft: { type: 'userLeft', payload: { username: 'Ann', room: 'lobby' } },
+  roomJoined: {
+    type: 'roomJoined',
+    payload: { room: 'lobby', members: Array.from({ length: 300 }, (_, i) => `user${i}`) },
+  },
+  roomLeft: { type: 'roomLeft', payload: { room: 'lobby' } },
+  userList: {
+    type: 'userList',
+    payload: {
+      users: [
+        { clientId: 'client_1', username: 'Ann', room: 'lobby', status: 'online' },
+        { clientId: 'client_2', username: null, room: null, status: 'away' },
+      ],
+    },
+  },
+  presenceChanged: {
+    type: 'presenceChanged',
+    payload: { clientId: 'client_1', username: 'Ann', room: 'games', status: 'away' },
+  },
+  presenceRemoved: { type: 'presenceRemoved', payload: { clientId: 'client_1' } },
+  userTyping: {
+    type: 'userTyping',
+    payload: { clientId: 'client_1', username: 'Ann', room: 'lobby', typing: true },
+  },
+  chatMessage: { type: 'chatMessage', payload: chatMessage },
+  history: { type: 'history', payload: { room: 'lobby', messages: [chatMessage], hasMore: true } },
+  systemMessage: { type: 'systemMessage', payload: { text: '' } },
+  error: { type: 'error', payload: { message: 'Bad', code: 'INVALID_MESSAGE', field: 'payload.text' } },
+  rateLimited: { type: 'rateLimited', payload: { retryAfterMs: 250, messageType: 'sendMessage' } },
+  pong: { type: 'pong', payload: { timestamp: -1.5 } },
+  serverShuttingDown: {
+    type: 'serverShuttingDown',
+    payload: { closeInMs: 10_000, reconnectAfterMs: 1000, reconnectJitterMs: 5000 },
+  },
+};
+
+test('every client message variant has a sample', () => {
+  assert.deepEqual(Object.keys(clientSamples).sort(), Object.keys(clientMessageSchemas).sort());
+});
+
+for (const codec of codecs) {
+  test(`${codec.name} round-trips every client message`, () => {
+    for (const message of Object.values(clientSamples)) {
+      const frame = { ...message, requestId: 'req_1' };
+      assert.deepEqual(codec.decode(codec.encode(frame)), frame);
+    }
+  });
+
+  test(`${codec.name} round-trips every server message`, () => {
+    for (const message of Object.values(serverSamples)) {
+      assert.deepEqual(codec.decode(codec.encode(message)), message);
+    }
+  });
+
+  test(`${codec.name} drops undefined fields like JSON does`, () => {
+    const frame = { type: 'error', payload: { message: 'x', code: undefined }, requestId: undefined };
+    assert.deepEqual(codec.decode(codec.encode(frame)), { type: 'error', payload: { message: 'x' } });
+  });
+}
+
+test('msgpack keeps number edge cases intact', () => {
+  const numbers = [0, 127, 128, 255, 65_535, 65_536, 2 ** 32, Number.MAX_SAFE_INTEGER, -1, -32, -33,
+    -128, -129, -32_768, -32_769, -(2 ** 31), -(2 ** 31) - 1, Number.MIN_SAFE_INTEGER, 0.1, 1e300];
+  assert.deepEqual(msgpackCodec.decode(msgpackCodec.encode(numbers)), numbers);
+});
+
+test('msgpack is more compact than JSON and carries raw bytes', () => {
+  const message = serverSamples.chatMessage;
+  assert.ok(
+    (msgpackCodec.encode(message) as Uint8Array).length < (jsonCodec.encode(message) as string).length
+  );
+
+  const bytes = new Uint8Array([0, 1, 2, 255]);
+  assert.deepEqual(msgpackCodec.decode(msgpackCodec.encode({ bytes })), { bytes });
+});
+
+test('msgpack rejects malformed input', () => {
+  const encoded = msgpackCodec.encode(serverSamples.welcome) as Uint8Array;
+  assert.throws(() => msgpackCodec.decode(encoded.subarray(0, encoded.length - 1)));
+  assert.throws(() => msgpackCodec.decode(new Uint8Array([...encoded, 0])));
+  assert.throws(() => msgpackCodec.decode('{"type":"ping"}'));
+});
+
+test('msgpack decodes __proto__ keys as plain data', () => {
+  const decoded = msgpackCodec.decode(
+    msgpackCodec.encode(JSON.parse('{"__proto__": {"polluted": true}}'))
+  ) as Record<string, unknown>;
+  assert.equal(({} as Record<string, unknown>).polluted, undefined);
+  assert.deepEqual(Object.keys(decoded), ['__proto__']);
+});
+
+test('findCodec looks codecs up by subprotocol name', () => {
+  assert.equal(findCodec('json'), jsonCodec);
+  assert.equal(findCodec('msgpack'), msgpackCodec);
+  assert.equal(findCodec('msgpack', [jsonCodec]), undefined);
+});
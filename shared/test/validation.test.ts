@@ -0,0 +1,61 @@
+import test from 'node:test';
+import assert from 'node:assert/strict';
+import { validateClientMessage } from '../src/validation.js';
+
+test('accepts a well-formed message', () => {
+  const result = validateClientMessage({ type: 'sendMessage', payload: { text: 'hi' } });
+  assert.equal(result.ok, true);
+});
+
+test('rejects non-object frames', () => {
+  for (const raw of [null, 42, 'sendMessage', ['sendMessage']]) {
+    const result = validateClientMessage(raw);
+    assert.equal(result.ok, false);
+  }
+});
+
+test('names the failing field', () => {
+  const cases: [unknown, string][] = [
+    [{ payload: {} }, 'type'],
+    [{ type: 'nope', payload: {} }, 'type'],
+    [{ type: 'joinRoom' }, 'payload'],
+    [{ type: 'joinRoom', payload: [] }, 'payload'],
+    [{ type: 'joinRoom', payload: {} }, 'payload.room'],
+    [{ type: 'joinRoom', payload: { room: false } }, 'payload.room'],
+  ];
+
+  for (const [raw, field] of cases) {
+    const result = validateClientMessage(raw);
+    assert.equal(result.ok, false);
+    if (!result.ok) {
+      assert.equal(result.error.field, field);
+    }
+  }
+});
+
+test('rejects values outside a field allow-list', () => {
+  assert.equal(validateClientMessage({ type: 'setStatus', payload: { status: 'away' } }).ok, true);
+
+  const result = validateClientMessage({ type: 'setStatus', payload: { status: 'busy' } });
+  assert.equal(result.ok, false);
+  if (!result.ok) {
+    assert.equal(result.error.field, 'payload.status');
+    assert.equal(result.error.message, 'Expected one of online, away');
+  }
+});
+
+test('rejects history limits that are not positive integers', () => {
+  const fetch = (limit: unknown) =>
+    validateClientMessage({ type: 'fetchHistory', payload: { room: 'general', limit } });
+
+  assert.equal(fetch(20).ok, true);
+  assert.equal(fetch(undefined).ok, true);
+
+  for (const limit of [NaN, Infinity, -Infinity, 2.5, 0, -3]) {
+    const result = fetch(limit);
+    assert.equal(result.ok, false, `limit ${limit}`);
+    if (!result.ok) {
+      assert.equal(result.error.field, 'payload.limit');
+    }
+  }
+});